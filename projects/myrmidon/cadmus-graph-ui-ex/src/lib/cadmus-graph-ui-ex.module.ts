@@ -2,6 +2,7 @@ import { CommonModule } from '@angular/common';
 import { HttpClientModule } from '@angular/common/http';
 import { NgModule } from '@angular/core';
 import { FormsModule, ReactiveFormsModule } from '@angular/forms';
+import { ClipboardModule } from '@angular/cdk/clipboard';
 
 import { MatAutocompleteModule } from '@angular/material/autocomplete';
 import { MatButtonModule } from '@angular/material/button';
@@ -11,9 +12,11 @@ import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatIconModule } from '@angular/material/icon';
 import { MatInputModule } from '@angular/material/input';
 import { MatListModule } from '@angular/material/list';
+import { MatMenuModule } from '@angular/material/menu';
 import { MatPaginatorModule } from '@angular/material/paginator';
 import { MatProgressBarModule } from '@angular/material/progress-bar';
 import { MatSelectModule } from '@angular/material/select';
+import { MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatTabsModule } from '@angular/material/tabs';
 import { MatTooltipModule } from '@angular/material/tooltip';
 
@@ -27,25 +30,38 @@ import { CadmusApiModule } from '@myrmidon/cadmus-api';
 import { CadmusRefsLookupModule } from '@myrmidon/cadmus-refs-lookup';
 import { CadmusGraphUiModule } from '@myrmidon/cadmus-graph-ui';
 
+import { ErrorListComponent } from './components/error-list/error-list.component';
+import { ExpanderPanelComponent } from './components/expander-panel/expander-panel.component';
 import { GraphWalkerComponent } from './components/graph-walker/graph-walker.component';
 import { TripleFilterComponent } from './components/triple-filter/triple-filter.component';
 import { LinkedLiteralFilterComponent } from './components/linked-literal-filter/linked-literal-filter.component';
 import { LinkedNodeFilterComponent } from './components/linked-node-filter/linked-node-filter.component';
+import { LiteralInspectorComponent } from './components/literal-inspector/literal-inspector.component';
+import { NodeDetailsComponent } from './components/node-details/node-details.component';
+import { PathFinderComponent } from './components/path-finder/path-finder.component';
 import { GraphNodeLabelPipe } from './pipes/graph-node-label.pipe';
+import { WalkerCuriePipe } from './pipes/walker-curie.pipe';
 
 @NgModule({
   declarations: [
+    ErrorListComponent,
+    ExpanderPanelComponent,
     GraphNodeLabelPipe,
     GraphWalkerComponent,
     LinkedLiteralFilterComponent,
     LinkedNodeFilterComponent,
+    LiteralInspectorComponent,
+    NodeDetailsComponent,
+    PathFinderComponent,
     TripleFilterComponent,
+    WalkerCuriePipe,
   ],
   imports: [
     CommonModule,
     FormsModule,
     ReactiveFormsModule,
     HttpClientModule,
+    ClipboardModule,
     // material
     MatAutocompleteModule,
     MatButtonModule,
@@ -55,9 +71,11 @@ import { GraphNodeLabelPipe } from './pipes/graph-node-label.pipe';
     MatIconModule,
     MatInputModule,
     MatListModule,
+    MatMenuModule,
     MatPaginatorModule,
     MatProgressBarModule,
     MatSelectModule,
+    MatSnackBarModule,
     MatTabsModule,
     MatTooltipModule,
     // vendor
@@ -68,15 +86,21 @@ import { GraphNodeLabelPipe } from './pipes/graph-node-label.pipe';
     CadmusCoreModule,
     CadmusApiModule,
     CadmusRefsLookupModule,
-    CadmusGraphUiModule
+    CadmusGraphUiModule,
   ],
   exports: [
+    ErrorListComponent,
+    ExpanderPanelComponent,
     GraphNodeLabelPipe,
     GraphWalkerComponent,
     CadmusApiModule,
     LinkedLiteralFilterComponent,
     LinkedNodeFilterComponent,
+    LiteralInspectorComponent,
+    NodeDetailsComponent,
+    PathFinderComponent,
     TripleFilterComponent,
+    WalkerCuriePipe,
   ],
 })
 export class CadmusGraphUiExModule {}
@@ -0,0 +1,54 @@
+import { WalkerError } from '../../walker-errors';
+import { ErrorListComponent } from './error-list.component';
+
+describe('ErrorListComponent', () => {
+  let component: ErrorListComponent;
+
+  const error: WalkerError = {
+    operation: 'node',
+    message: 'Not found',
+    nodeId: 'N1',
+    time: 0,
+  };
+
+  beforeEach(() => {
+    component = new ErrorListComponent();
+  });
+
+  it('should build a tooltip with the operation only', () => {
+    expect(component.getTooltip(error)).toBe('node');
+  });
+
+  it('should build a tooltip with status, transience and filters', () => {
+    expect(
+      component.getTooltip({
+        ...error,
+        status: 503,
+        transient: true,
+        filters: { outFilter: { tag: 'x' } },
+      })
+    ).toBe('node | HTTP 503 | transient | {"outFilter":{"tag":"x"}}');
+  });
+
+  it('should include a network error status of 0 in the tooltip', () => {
+    expect(component.getTooltip({ ...error, status: 0 })).toBe('node | HTTP 0');
+  });
+
+  it('should emit the node ID of retry, dismiss and select requests', () => {
+    const ids: string[] = [];
+    component.retryRequest.subscribe((id) => ids.push('retry ' + id));
+    component.dismissRequest.subscribe((id) => ids.push('dismiss ' + id));
+    component.nodeSelect.subscribe((id) => ids.push('select ' + id));
+    component.retryRequest.emit('N1');
+    component.dismissRequest.emit('N2');
+    component.nodeSelect.emit('N3');
+    expect(ids).toEqual(['retry N1', 'dismiss N2', 'select N3']);
+  });
+
+  it('should emit a clear request without arguments', () => {
+    let cleared = false;
+    component.clearRequest.subscribe(() => (cleared = true));
+    component.clearRequest.emit();
+    expect(cleared).toBeTrue();
+  });
+});
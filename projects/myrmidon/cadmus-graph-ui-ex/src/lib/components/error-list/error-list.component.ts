@@ -0,0 +1,65 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+import { WalkerError } from '../../walker-errors';
+
+/**
+ * List of the graph walker errors. Each error can be retried, when its
+ * request is retryable, or dismissed.
+ */
+@Component({
+  selector: 'cadmus-walker-error-list',
+  templateUrl: './error-list.component.html',
+  styleUrls: ['./error-list.component.css'],
+})
+export class ErrorListComponent {
+  /**
+   * The errors to list.
+   */
+  @Input()
+  public errors: WalkerError[] | undefined | null;
+
+  /**
+   * Emitted when the user requests to retry the request for a node.
+   */
+  @Output()
+  public retryRequest: EventEmitter<string>;
+
+  /**
+   * Emitted when the user dismisses the error for a node.
+   */
+  @Output()
+  public dismissRequest: EventEmitter<string>;
+
+  /**
+   * Emitted when the user dismisses all the errors.
+   */
+  @Output()
+  public clearRequest: EventEmitter<void>;
+
+  /**
+   * Emitted when the user selects the node of an error.
+   */
+  @Output()
+  public nodeSelect: EventEmitter<string>;
+
+  constructor() {
+    this.retryRequest = new EventEmitter<string>();
+    this.dismissRequest = new EventEmitter<string>();
+    this.clearRequest = new EventEmitter<void>();
+    this.nodeSelect = new EventEmitter<string>();
+  }
+
+  public getTooltip(error: WalkerError): string {
+    const sb: string[] = [error.operation];
+    if (error.status !== undefined) {
+      sb.push(`HTTP ${error.status}`);
+    }
+    if (error.transient) {
+      sb.push('transient');
+    }
+    if (error.filters) {
+      sb.push(JSON.stringify(error.filters));
+    }
+    return sb.join(' | ');
+  }
+}
@@ -0,0 +1,79 @@
+import { FormBuilder } from '@angular/forms';
+import { of } from 'rxjs';
+import { Node as GraphNode } from '@swimlane/ngx-graph';
+
+import { WalkerExpander } from '../../walker-expanders';
+import {
+  ExpanderPanelComponent,
+  WalkerExpanderRequest,
+} from './expander-panel.component';
+
+interface TagFilter {
+  tag: string;
+}
+
+describe('ExpanderPanelComponent', () => {
+  let component: ExpanderPanelComponent;
+
+  const createExpander = (
+    prefix: string
+  ): WalkerExpander<TagFilter, string> => ({
+    prefix: prefix,
+    name: 'expander ' + prefix,
+    canExpand: () => true,
+    createFilter: () => ({ tag: prefix }),
+    load: () => of({ items: [] }),
+    buildNode: (item: string) => ({ key: item, label: item }),
+  });
+
+  beforeEach(() => {
+    component = new ExpanderPanelComponent(new FormBuilder());
+  });
+
+  it('should choose the first expander', () => {
+    component.expanders = [createExpander('I'), createExpander('T')];
+    expect(component.prefix.value).toBe('I');
+    expect(component.expander?.name).toBe('expander I');
+  });
+
+  it('should keep the chosen expander when still available', () => {
+    component.expanders = [createExpander('I'), createExpander('T')];
+    component.prefix.setValue('T');
+    component.expanders = [createExpander('X'), createExpander('T')];
+    expect(component.prefix.value).toBe('T');
+    component.expanders = [createExpander('X')];
+    expect(component.prefix.value).toBe('X');
+    component.expanders = null;
+    expect(component.prefix.value).toBeNull();
+    expect(component.expander).toBeUndefined();
+  });
+
+  it('should get the expansion of the node by the chosen expander', () => {
+    component.expanders = [createExpander('I'), createExpander('T')];
+    component.node = {
+      id: 'N1',
+      label: 'n1',
+      data: { expansions: { T: { filter: { tag: 't' }, total: 3 } } },
+    } as GraphNode;
+    expect(component.expansion).toBeUndefined();
+    component.prefix.setValue('T');
+    expect(component.expansion).toEqual({ filter: { tag: 't' }, total: 3 });
+  });
+
+  it('should emit expand and collapse requests for the chosen expander', () => {
+    const requests: WalkerExpanderRequest[] = [];
+    const collapsed: string[] = [];
+    component.expandRequest.subscribe((r) => requests.push(r));
+    component.collapseRequest.subscribe((p) => collapsed.push(p));
+    component.expand();
+    component.collapse();
+    expect(requests).toEqual([]);
+    expect(collapsed).toEqual([]);
+
+    component.expanders = [createExpander('I')];
+    component.expand();
+    component.collapse();
+    expect(requests).toEqual([{ prefix: 'I' }]);
+    expect(collapsed).toEqual(['I']);
+  });
+});
@@ -0,0 +1,191 @@
+import {
+  Component,
+  ComponentRef,
+  DoCheck,
+  EventEmitter,
+  Input,
+  OnDestroy,
+  OnInit,
+  Output,
+  ViewChild,
+  ViewContainerRef,
+} from '@angular/core';
+import { FormBuilder, FormControl } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { Node as GraphNode } from '@swimlane/ngx-graph';
+
+import {
+  WalkerExpander,
+  WalkerExpanderFilterComponent,
+  WalkerExpansion,
+} from '../../walker-expanders';
+
+/**
+ * A request to expand a node with an expander.
+ */
+export interface WalkerExpanderRequest {
+  prefix: string;
+  /**
+   * The filter, when changed by user.
+   */
+  filter?: unknown;
+}
+
+/**
+ * Expanders panel. This lets users expand the selected node with any of
+ * the expanders accepting it, or collapse its expansions. The filter of
+ * the chosen expander is edited with the expander's filter component,
+ * when it has one.
+ */
+@Component({
+  selector: 'cadmus-walker-expander-panel',
+  templateUrl: './expander-panel.component.html',
+  styleUrls: ['./expander-panel.component.css'],
+})
+export class ExpanderPanelComponent implements OnInit, DoCheck, OnDestroy {
+  private _node: GraphNode | undefined | null;
+  private _expanders: WalkerExpander[];
+  private _sub?: Subscription;
+  private _filterRef?: ComponentRef<WalkerExpanderFilterComponent>;
+  private _filterSub?: Subscription;
+  private _expansion?: WalkerExpansion;
+
+  @ViewChild('filterHost', { read: ViewContainerRef, static: true })
+  public filterHost?: ViewContainerRef;
+
+  /**
+   * The node to expand.
+   */
+  @Input()
+  public get node(): GraphNode | undefined | null {
+    return this._node;
+  }
+  public set node(value: GraphNode | undefined | null) {
+    if (this._node === value) {
+      return;
+    }
+    this._node = value;
+    this.updateFilter();
+  }
+
+  /**
+   * The expanders accepting the node.
+   */
+  @Input()
+  public get expanders(): WalkerExpander[] {
+    return this._expanders;
+  }
+  public set expanders(value: WalkerExpander[] | undefined | null) {
+    this._expanders = value || [];
+    const prefix = this._expanders.some((e) => e.prefix === this.prefix.value)
+      ? this.prefix.value
+      : this._expanders[0]?.prefix || null;
+    if (prefix !== this.prefix.value) {
+      this.prefix.setValue(prefix, { emitEvent: false });
+    }
+    this.updateFilter();
+  }
+
+  /**
+   * Emitted when the user requests to expand the node.
+   */
+  @Output()
+  public expandRequest: EventEmitter<WalkerExpanderRequest>;
+
+  /**
+   * Emitted when the user requests to collapse the expansion of the node
+   * by the expander with the emitted prefix.
+   */
+  @Output()
+  public collapseRequest: EventEmitter<string>;
+
+  public prefix: FormControl<string | null>;
+
+  /**
+   * The chosen expander.
+   */
+  public get expander(): WalkerExpander | undefined {
+    return this._expanders.find((e) => e.prefix === this.prefix.value);
+  }
+
+  /**
+   * The expansion of the node by the chosen expander, if any.
+   */
+  public get expansion(): WalkerExpansion | undefined {
+    return this.prefix.value
+      ? this._node?.data?.expansions?.[this.prefix.value]
+      : undefined;
+  }
+
+  constructor(formBuilder: FormBuilder) {
+    this._expanders = [];
+    this.prefix = formBuilder.control(null);
+    this.expandRequest = new EventEmitter<WalkerExpanderRequest>();
+    this.collapseRequest = new EventEmitter<string>();
+  }
+
+  ngOnInit(): void {
+    this._sub = this.prefix.valueChanges.subscribe((_) => {
+      this.updateFilter();
+    });
+    this.updateFilter();
+  }
+
+  ngDoCheck(): void {
+    // the node data are updated in place when the node gets expanded
+    const expansion = this.expansion;
+    if (this._filterRef && expansion !== this._expansion) {
+      this._expansion = expansion;
+      if (expansion) {
+        this._filterRef.setInput('filter', expansion.filter);
+      }
+      this._filterRef.setInput('total', expansion?.total);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this._sub?.unsubscribe();
+    this._filterSub?.unsubscribe();
+  }
+
+  private updateFilter(): void {
+    if (!this.filterHost) {
+      return;
+    }
+    this._filterSub?.unsubscribe();
+    this.filterHost.clear();
+    this._filterRef = undefined;
+
+    const expander = this.expander;
+    if (!this._node || !expander?.filterComponent) {
+      return;
+    }
+    this._expansion = this.expansion;
+    this._filterRef = this.filterHost.createComponent(expander.filterComponent);
+    this._filterRef.setInput('node', this._node);
+    this._filterRef.setInput(
+      'filter',
+      this._expansion
+        ? this._expansion.filter
+        : expander.createFilter(this._node)
+    );
+    this._filterRef.setInput('total', this._expansion?.total);
+    this._filterSub = this._filterRef.instance.filterChange.subscribe(
+      (filter) => {
+        this.expandRequest.emit({ prefix: expander.prefix, filter: filter });
+      }
+    );
+  }
+
+  public expand(): void {
+    if (this.prefix.value) {
+      this.expandRequest.emit({ prefix: this.prefix.value });
+    }
+  }
+
+  public collapse(): void {
+    if (this.prefix.value) {
+      this.collapseRequest.emit(this.prefix.value);
+    }
+  }
+}
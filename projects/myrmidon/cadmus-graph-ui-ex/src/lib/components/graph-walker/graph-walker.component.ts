@@ -1,31 +1,121 @@
-import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
-import { Observable, Subject, take } from 'rxjs';
+import {
+  Component,
+  ElementRef,
+  EventEmitter,
+  HostListener,
+  Inject,
+  Input,
+  OnDestroy,
+  OnInit,
+  Optional,
+  Output,
+  ViewChild,
+} from '@angular/core';
+import { LiveAnnouncer } from '@angular/cdk/a11y';
+import { FormBuilder, FormControl, Validators } from '@angular/forms';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import {
+  combineLatest,
+  debounceTime,
+  filter,
+  map,
+  Observable,
+  Subject,
+  startWith,
+  Subscription,
+  take,
+} from 'rxjs';
 
-import { Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+import {
+  ClusterNode,
+  Edge,
+  GraphComponent,
+  Node as GraphNode,
+} from '@swimlane/ngx-graph';
 import { DialogService } from '@myrmidon/ng-mat-tools';
 
-import { GraphService } from '@myrmidon/cadmus-api';
+import { GraphNodeLookupService } from '@myrmidon/cadmus-graph-ui';
+
+import { GraphService, UriNode } from '@myrmidon/cadmus-api';
 
 import {
   GraphWalker,
+  GraphWalkerEvent,
+  GraphWalkerState,
   NodeChildTotals,
   PagedLinkedLiteralFilter,
   PagedLinkedNodeFilter,
   PagedTripleFilter,
+  WalkerExpandOptions,
+  WalkerExpandProgress,
 } from '../../graph-walker';
+import { readTextFile, saveFile } from '../../file-utils';
+import { WalkerExpanderRequest } from '../expander-panel/expander-panel.component';
+import { GraphPath } from '../../graph-path-finder';
+import { WalkerClusterMode } from '../../graph-walker-clusters';
+import {
+  WalkerRdfExporter,
+  WalkerRdfFormat,
+  WALKER_RDF_FORMAT_INFO,
+} from '../../walker-rdf-exporter';
+import {
+  WalkerGraphExporter,
+  WalkerGraphFormat,
+  WALKER_GRAPH_FORMAT_INFO,
+} from '../../walker-graph-exporter';
+import {
+  WalkerError,
+  WalkerRetryOptions,
+  WALKER_RETRY_OPTIONS,
+} from '../../walker-errors';
+import { WalkerExpander, WALKER_EXPANDERS } from '../../walker-expanders';
+import { WalkerImageExporter } from '../../walker-image-exporter';
+import {
+  WalkerLayout,
+  WalkerLayoutName,
+  WalkerNodePosition,
+} from '../../walker-layout';
+import {
+  WalkerLiteralFormatters,
+  WALKER_DEFAULT_LITERAL_FORMATTERS,
+  WALKER_LITERAL_FORMATTERS,
+} from '../../walker-literal-formatters';
+import { WalkerDirection } from '../../walker-navigation';
+import { WalkerPrefixRegistry } from '../../walker-prefixes';
+import { searchWalkerNodes } from '../../walker-search';
+import {
+  getWalkerNodeSource,
+  WalkerNodeSource,
+  WalkerSourceLinks,
+} from '../../walker-sid';
+import {
+  getWalkerShapeRadii,
+  WalkerEdgeStyle,
+  WalkerNodeStyle,
+  WalkerStyleConfig,
+  WalkerStyler,
+  WalkerStyles,
+  WALKER_STYLE_CONFIG,
+} from '../../walker-styler';
 
 /**
  * Graph walker component. This starts from a given node, and let users
- * walk along edges to discover new nodes.
+ * walk along edges to discover new nodes. Nodes and edges are styled
+ * according to the configuration provided via WALKER_STYLE_CONFIG.
  */
 @Component({
   selector: 'cadmus-graph-walker',
   templateUrl: './graph-walker.component.html',
   styleUrls: ['./graph-walker.component.css'],
 })
-export class GraphWalkerComponent implements OnInit {
+export class GraphWalkerComponent implements OnInit, OnDestroy {
   private readonly _walker: GraphWalker;
+  private readonly _styler: WalkerStyler;
+  private _styles: WalkerStyles;
+  private _sub?: Subscription;
   private _nodeId: number;
+  private _searchIds: Set<string>;
+  private _searchQuery: string;
 
   /**
    * The root origin node ID.
@@ -42,6 +132,38 @@ export class GraphWalkerComponent implements OnInit {
     this.reset(value);
   }
 
+  /**
+   * The IDs of the root origin nodes, when walking from several roots.
+   * Roots not included here are removed, and new ones are added, merging
+   * their shared descendants.
+   */
+  @Input()
+  public get nodeIds(): number[] {
+    return this._walker.getRootNodes().map((n) => +n.id.substring(1));
+  }
+  public set nodeIds(value: number[] | undefined | null) {
+    if (!value?.length) {
+      return;
+    }
+    this._nodeId = value[0];
+    this._walker.setRoots(value);
+  }
+
+  /**
+   * The graph layout. Default is colaForceDirected.
+   */
+  @Input()
+  public get layoutName(): WalkerLayoutName {
+    return this.layout.name;
+  }
+  public set layoutName(value: WalkerLayoutName | undefined | null) {
+    value = value || 'colaForceDirected';
+    if (this.layout.name === value) {
+      return;
+    }
+    this.layout = new WalkerLayout(value, this._walker);
+  }
+
   /**
    * True if user can pick a node from the graph.
    */
@@ -55,6 +177,28 @@ export class GraphWalkerComponent implements OnInit {
   @Input()
   public canMoveToSource?: boolean;
 
+  /**
+   * The namespace prefixes used when exporting RDF, each mapped to its
+   * namespace URI. When not set, the prefixes registered in
+   * WalkerPrefixRegistry are used.
+   */
+  @Input()
+  public rdfPrefixes?: Record<string, string>;
+
+  /**
+   * The links to the Cadmus editor for the source of the selected node.
+   * When not set, WALKER_SOURCE_LINKS or its defaults are used.
+   */
+  @Input()
+  public sourceLinks?: WalkerSourceLinks;
+
+  /**
+   * The options used when expanding the selected node to a given depth.
+   * By default, at most 200 nodes are added with at most 100 requests.
+   */
+  @Input()
+  public expandOptions?: WalkerExpandOptions;
+
   /**
    * Emitted when a graph node is picked by user.
    */
@@ -62,16 +206,30 @@ export class GraphWalkerComponent implements OnInit {
   public nodePick: EventEmitter<GraphNode>;
 
   /**
-   * Emitted when the user requests to move to the source of a picked node.
+   * Emitted when the user requests to move to the source of a picked node,
+   * with its parsed SID.
+   */
+  @Output()
+  public moveToSource: EventEmitter<WalkerNodeSource>;
+
+  /**
+   * Emitted for each event of the walker, like expanding or collapsing
+   * a node, changing the selection or a filter, or errors.
    */
   @Output()
-  public moveToSource: EventEmitter<GraphNode>;
+  public walkerEvent: EventEmitter<GraphWalkerEvent>;
 
   // graph
+  public layout: WalkerLayout;
   public nodes$: Observable<GraphNode[]>;
   public edges$: Observable<Edge[]>;
+  public clusters$: Observable<ClusterNode[]>;
+  public roots$: Observable<GraphNode[]>;
+  public clusterMode$: Observable<WalkerClusterMode>;
   public loading$: Observable<boolean>;
+  public pending$: Observable<number>;
   public error$: Observable<string | null>;
+  public errors$: Observable<WalkerError[]>;
   // selected node
   public selectedNode$: Observable<GraphNode | null>;
   public pOutFilter$: Observable<PagedLinkedNodeFilter | null>;
@@ -80,22 +238,89 @@ export class GraphWalkerComponent implements OnInit {
   public nOutFilter$: Observable<PagedTripleFilter | null>;
   public nInFilter$: Observable<PagedTripleFilter | null>;
   public childTotals$: Observable<NodeChildTotals>;
+  // the expanders accepting the selected node, or null if none
+  public expanders$: Observable<WalkerExpander[] | null>;
+  // history
+  public canUndo$: Observable<boolean>;
+  public canRedo$: Observable<boolean>;
+  // expansion to depth
+  public depth: FormControl<number>;
+  public expandProgress$: Observable<WalkerExpandProgress | null>;
+  // search
+  public search: FormControl<string | null>;
+  public searchMatches: GraphNode[];
+  public searchIndex: number;
+  // the source node for paths: the selected N node, or the root node
+  public pathSource$: Observable<{ id: number; label: string } | null>;
+
+  // export
+  public collapseProperties: boolean;
+  public imageViewport: boolean;
+
+  @ViewChild('graphView')
+  public graphView?: ElementRef<HTMLElement>;
+  @ViewChild(GraphComponent)
+  public graphComponent?: GraphComponent;
 
   // ngx-graph actions
   public update$: Subject<boolean> = new Subject();
   public center$: Subject<boolean> = new Subject();
   public zoomToFit$: Subject<boolean> = new Subject();
+  public panToNode$: Subject<string> = new Subject();
 
-  constructor(graphService: GraphService, private _dialog: DialogService) {
+  constructor(
+    formBuilder: FormBuilder,
+    graphService: GraphService,
+    private _dialog: DialogService,
+    private _snackbar: MatSnackBar,
+    public lookupService: GraphNodeLookupService,
+    private _prefixes: WalkerPrefixRegistry,
+    private _announcer: LiveAnnouncer,
+    @Optional()
+    @Inject(WALKER_STYLE_CONFIG)
+    styleConfig: WalkerStyleConfig | null,
+    @Optional()
+    @Inject(WALKER_LITERAL_FORMATTERS)
+    literalFormatters: WalkerLiteralFormatters | null,
+    @Optional()
+    @Inject(WALKER_RETRY_OPTIONS)
+    retryOptions: WalkerRetryOptions | null,
+    @Optional()
+    @Inject(WALKER_EXPANDERS)
+    expanders: WalkerExpander[] | null
+  ) {
     this._walker = new GraphWalker(graphService);
+    if (retryOptions) {
+      this._walker.retryOptions = retryOptions;
+    }
+    expanders?.forEach((e) => this._walker.registerExpander(e));
+    if (literalFormatters) {
+      this._walker.literalFormatters = {
+        ...WALKER_DEFAULT_LITERAL_FORMATTERS,
+        ...literalFormatters,
+      };
+    }
+    this.layout = new WalkerLayout('colaForceDirected', this._walker);
+    this._styler = new WalkerStyler(styleConfig);
+    this._styles = { nodes: {}, edges: {} };
     this._nodeId = 0;
+    this._searchIds = new Set<string>();
+    this._searchQuery = '';
+    this.collapseProperties = false;
+    this.imageViewport = false;
     this.nodePick = new EventEmitter<GraphNode>();
-    this.moveToSource = new EventEmitter<GraphNode>();
+    this.moveToSource = new EventEmitter<WalkerNodeSource>();
+    this.walkerEvent = new EventEmitter<GraphWalkerEvent>();
 
     this.nodes$ = this._walker.nodes$;
     this.edges$ = this._walker.edges$;
+    this.clusters$ = this._walker.clusters$;
+    this.roots$ = this._walker.roots$;
+    this.clusterMode$ = this._walker.clusterMode$;
     this.loading$ = this._walker.loading$;
+    this.pending$ = this._walker.pending$;
     this.error$ = this._walker.error$;
+    this.errors$ = this._walker.errors$;
 
     this.selectedNode$ = this._walker.selectedNode$;
     this.pOutFilter$ = this._walker.pOutFilter$;
@@ -104,24 +329,322 @@ export class GraphWalkerComponent implements OnInit {
     this.nOutFilter$ = this._walker.nOutFilter$;
     this.nInFilter$ = this._walker.nInFilter$;
     this.childTotals$ = this._walker.childTotals$;
+    this.expanders$ = this._walker.selectedNode$.pipe(
+      map((node) => {
+        const expanders = node ? this._walker.getExpanders(node) : [];
+        return expanders.length ? expanders : null;
+      })
+    );
+    this.canUndo$ = this._walker.canUndo$;
+    this.canRedo$ = this._walker.canRedo$;
+    this.depth = formBuilder.control(2, {
+      validators: [Validators.required, Validators.min(1), Validators.max(8)],
+      nonNullable: true,
+    });
+    this.expandProgress$ = this._walker.expandProgress$;
+    this.search = formBuilder.control(null);
+    this.searchMatches = [];
+    this.searchIndex = -1;
+    this.pathSource$ = this._walker.selectedNode$.pipe(
+      map((node) => {
+        const source = node?.id.startsWith('N')
+          ? node
+          : this._walker.getRootNode();
+        return source
+          ? { id: +source.id.substring(1), label: source.label || source.id }
+          : null;
+      })
+    );
   }
 
   ngOnInit(): void {
-    this.update$.subscribe((_) => {
+    this._sub = this.update$.subscribe((_) => {
       this.onReset();
     });
+    // re-emit the walker events
+    this._sub.add(
+      this._walker.events$.subscribe((e) => this.walkerEvent.emit(e))
+    );
+    // update styles when the graph changes
+    this._sub.add(
+      combineLatest([this._walker.nodes$, this._walker.edges$]).subscribe(
+        ([nodes, edges]) => {
+          this._styles = this._styler.getStyles(nodes, edges);
+        }
+      )
+    );
+    // update search matches when the query or the graph changes
+    this._sub.add(
+      combineLatest([
+        this.search.valueChanges.pipe(
+          debounceTime(300),
+          startWith(this.search.value)
+        ),
+        this._walker.nodes$,
+      ]).subscribe(([query, nodes]) => {
+        const changed = (query || '').trim() !== this._searchQuery;
+        this.updateSearch(query, nodes);
+        // center on the first match of a new query
+        if (changed) {
+          this.moveToSearchMatch(0);
+        }
+      })
+    );
+    // notify when an expansion to depth stops at a limit
+    this._sub.add(
+      this._walker.expandProgress$
+        .pipe(filter((p) => !!p?.done && !!p.limit))
+        .subscribe((p) => {
+          this._snackbar.open(
+            `Expansion stopped at depth ${p!.depth}: ` +
+              `${p!.limit === 'nodes' ? 'node' : 'request'} limit reached`,
+            'OK',
+            { duration: 3000 }
+          );
+        })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this._sub?.unsubscribe();
+    this._walker.dispose();
+  }
+
+  public getNodeStyle(node: GraphNode): WalkerNodeStyle {
+    return this._styles.nodes[node.id] || {};
+  }
+
+  public getNodeRadii(node: GraphNode): [number, number] {
+    return getWalkerShapeRadii(
+      this.getNodeStyle(node).shape,
+      node.dimension?.width || 0,
+      node.dimension?.height || 0
+    );
+  }
+
+  public getEdgeStyle(edge: Edge): WalkerEdgeStyle {
+    return this._styles.edges[edge.id!] || {};
+  }
+
+  private updateSearch(query: string | null, nodes: GraphNode[]): void {
+    const current = this.searchMatches[this.searchIndex]?.id;
+    this._searchQuery = (query || '').trim();
+    this.searchMatches = searchWalkerNodes(nodes, query, (uri) =>
+      this._prefixes.compact(uri)
+    );
+    this._searchIds = new Set<string>(this.searchMatches.map((n) => n.id));
+    // keep the current match when still present
+    this.searchIndex = this.searchMatches.findIndex((n) => n.id === current);
+    if (this.searchIndex === -1 && this.searchMatches.length) {
+      this.searchIndex = 0;
+    }
+  }
+
+  /**
+   * True if a search is active, i.e. its query has any non-blank text.
+   */
+  public get searching(): boolean {
+    return !!this._searchQuery;
+  }
+
+  public isSearchMatch(node: GraphNode): boolean {
+    return this._searchIds.has(node.id);
+  }
+
+  public isSearchCurrent(node: GraphNode): boolean {
+    return this.searchMatches[this.searchIndex]?.id === node.id;
+  }
+
+  /**
+   * Move to the next or previous search match, cycling through them,
+   * and center the graph on it.
+   *
+   * @param delta The offset of the match to move to: 1=next, -1=previous,
+   * 0=current.
+   */
+  public moveToSearchMatch(delta: number): void {
+    if (!this.searchMatches.length) {
+      return;
+    }
+    const count = this.searchMatches.length;
+    this.searchIndex = (this.searchIndex + delta + count) % count;
+    this.panToNode$.next(this.searchMatches[this.searchIndex].id);
+  }
+
+  public onSearchKeyDown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'Enter':
+        event.preventDefault();
+        this.moveToSearchMatch(event.shiftKey ? -1 : 1);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        this.clearSearch();
+        break;
+    }
+  }
+
+  public clearSearch(): void {
+    this.search.reset();
+  }
+
+  public cancelAll(): void {
+    this._walker.cancelAll();
+  }
+
+  @HostListener('keydown', ['$event'])
+  public onKeyDown(event: KeyboardEvent): void {
+    // do not interfere with text editing in filters
+    const target = event.target as HTMLElement;
+    if (
+      !(event.ctrlKey || event.metaKey) ||
+      target?.closest('input,textarea,select,[contenteditable]')
+    ) {
+      return;
+    }
+    switch (event.key.toLowerCase()) {
+      case 'z':
+        event.preventDefault();
+        if (event.shiftKey) {
+          this.redo();
+        } else {
+          this.undo();
+        }
+        break;
+      case 'y':
+        event.preventDefault();
+        this.redo();
+        break;
+    }
+  }
+
+  // the positions of the nodes in the laid out graph, which ngx-graph
+  // sets on its copies of the walker nodes
+  private getLayoutPositions(): Map<string, WalkerNodePosition> {
+    const positions = new Map<string, WalkerNodePosition>();
+    this.graphComponent?.graph?.nodes.forEach((n) => {
+      if (n.position) {
+        positions.set(n.id, { x: n.position.x, y: n.position.y });
+      }
+    });
+    return positions;
+  }
+
+  /**
+   * Handle keyboard navigation in the graph: arrows move the selection
+   * along edges, Enter toggles the selected node, Backspace selects its
+   * origin, and P picks it (shift+P moves to its source).
+   */
+  public onGraphKeyDown(event: KeyboardEvent): void {
+    if (event.ctrlKey || event.metaKey || event.altKey) {
+      return;
+    }
+    const directions: { [key: string]: WalkerDirection } = {
+      ArrowUp: 'up',
+      ArrowDown: 'down',
+      ArrowLeft: 'left',
+      ArrowRight: 'right',
+    };
+    let node: GraphNode | null = null;
+    switch (event.key) {
+      case 'ArrowUp':
+      case 'ArrowDown':
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        node = this._walker.selectNeighbor(
+          directions[event.key],
+          this.getLayoutPositions()
+        );
+        break;
+      case 'Enter':
+        node = this._walker.getSelectedNode();
+        if (node) {
+          this._walker.toggleNode(node);
+        }
+        break;
+      case 'Backspace':
+        node = this._walker.selectOrigin();
+        break;
+      case 'p':
+      case 'P':
+        if (!this.canPick) {
+          return;
+        }
+        this.pickSelectedNode(event);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    if (node) {
+      this.panToNode$.next(node.id);
+      this._announcer.announce(this.getNodeAriaLabel(node));
+    }
+  }
+
+  /**
+   * Get the accessible label of the specified node, including its kind
+   * and state.
+   */
+  public getNodeAriaLabel(node: GraphNode): string {
+    const sb: string[] = [];
+    switch (node.id.charAt(0)) {
+      case 'N':
+        sb.push(node.data?.originId ? 'node' : 'root node');
+        sb.push(node.label || node.id);
+        break;
+      case 'P':
+        sb.push('property');
+        sb.push(
+          `${this._prefixes.compact(node.data?.uri)}: ${node.label} items`
+        );
+        break;
+      case 'L':
+        sb.push('literal');
+        sb.push(node.data?.value || node.label || '');
+        break;
+      default:
+        sb.push(
+          this._walker.getExpander(node.id.charAt(0))?.name || 'expander node'
+        );
+        sb.push(node.label || node.id);
+        break;
+    }
+    if (!node.id.startsWith('L')) {
+      sb.push(node.data?.expanded ? 'expanded' : 'collapsed');
+    }
+    if (node.data?.pinned) {
+      sb.push('pinned');
+    }
+    if (node.data?.selected) {
+      sb.push('selected');
+    }
+    return sb.join(', ');
+  }
+
+  public undo(): void {
+    this._walker.undo();
+  }
+
+  public redo(): void {
+    this._walker.redo();
   }
 
   public onNodeSelect(node: GraphNode): void {
     this._walker.selectNode(node.id);
   }
 
-  private reset(id: number): void {
+  private reset(id: number | number[]): void {
     this._walker.reset(id);
   }
 
   public onReset(): void {
-    if (!this._nodeId) {
+    const ids = this.nodeIds.length
+      ? this.nodeIds
+      : this._nodeId
+      ? [this._nodeId]
+      : [];
+    if (!ids.length) {
       return;
     }
     this._dialog
@@ -129,15 +652,116 @@ export class GraphWalkerComponent implements OnInit {
       .pipe(take(1))
       .subscribe((yes) => {
         if (yes) {
-          this.reset(this._nodeId);
+          this.reset(ids);
         }
       });
   }
 
+  public onRootAdd(node: UriNode | null): void {
+    if (node) {
+      this._walker.addRoot(node.id);
+    }
+  }
+
+  public addSelectedRoot(): void {
+    const node = this._walker.getSelectedNode();
+    if (node?.id.startsWith('N')) {
+      this._walker.addRoot(+node.id.substring(1));
+    }
+  }
+
+  public removeRoot(node: GraphNode): void {
+    this._walker.removeRoot(+node.id.substring(1));
+  }
+
+  public onClusterModeChange(mode: WalkerClusterMode): void {
+    this._walker.setClusterMode(mode);
+  }
+
+  public retryNode(nodeId: string): void {
+    this._walker.retryNode(nodeId);
+  }
+
+  public dismissError(nodeId: string): void {
+    this._walker.dismissError(nodeId);
+  }
+
+  public clearErrors(): void {
+    this._walker.clearErrors();
+  }
+
+  public selectErrorNode(nodeId: string): void {
+    this._walker.selectNode(nodeId);
+    this.panToNode$.next(nodeId);
+  }
+
+  public onExpandRequest(request: WalkerExpanderRequest): void {
+    const node = this._walker.getSelectedNode();
+    if (node) {
+      this._walker.expandWith(node, request.prefix, request.filter);
+    }
+  }
+
+  public onCollapseRequest(prefix: string): void {
+    const node = this._walker.getSelectedNode();
+    if (node) {
+      this._walker.collapseExpansion(node, prefix);
+    }
+  }
+
+  public onLayoutChange(name: WalkerLayoutName): void {
+    this.layoutName = name;
+  }
+
+  /**
+   * Clear the positions of the nodes dragged by users, and lay out the
+   * graph again.
+   */
+  public resetPositions(): void {
+    this._walker.clearNodePositions();
+    // a new layout instance makes ngx-graph lay out the graph again
+    this.layout = new WalkerLayout(this.layout.name, this._walker);
+  }
+
   public onNodeDblClick(node: GraphNode): void {
     this._walker.toggleNode(node);
   }
 
+  public refreshSelectedNode(event: MouseEvent): void {
+    const node = this._walker.getSelectedNode();
+    if (!node) {
+      return;
+    }
+    if (event.shiftKey) {
+      this._walker.cache.clear();
+    }
+    this._walker.refreshNode(node);
+  }
+
+  public expandSelectedToDepth(): void {
+    const node = this._walker.getSelectedNode();
+    if (!node || node.id.startsWith('L') || this.depth.invalid) {
+      return;
+    }
+    this._walker.expandToDepth(node.id, this.depth.value, {
+      maxNodes: 200,
+      maxRequests: 100,
+      ...this.expandOptions,
+    });
+  }
+
+  public togglePin(): void {
+    this._walker.togglePinSelectedNode();
+  }
+
+  public onPathsChange(paths: GraphPath[]): void {
+    this._walker.showPaths(paths);
+  }
+
+  public clearHighlights(): void {
+    this._walker.clearHighlights();
+  }
+
   public onPOutFilterChange(filter: PagedLinkedNodeFilter): void {
     this._walker.expandSelectedProperty(filter);
   }
@@ -158,17 +782,133 @@ export class GraphWalkerComponent implements OnInit {
     this._walker.expandSelectedNode(null, filter);
   }
 
-  public pickSelectedNode(event: MouseEvent): void {
+  public pickSelectedNode(event: MouseEvent | KeyboardEvent): void {
     const node = this._walker.getSelectedNode();
     if (!node) {
       return;
     }
     if (this.canMoveToSource && event.shiftKey) {
-      if (node.data.sid) {
-        this.moveToSource.emit(node);
+      if (!node.data.sid) {
+        return;
+      }
+      const source = getWalkerNodeSource(node);
+      if (source) {
+        this.moveToSource.emit(source);
+      } else {
+        this._snackbar.open(`Invalid SID: ${node.data.sid}`, 'OK', {
+          duration: 3000,
+        });
       }
     } else {
       this.nodePick.emit(node);
     }
   }
+
+  public saveSession(): void {
+    const state = this._walker.getState();
+    if (!state.nodes.length) {
+      return;
+    }
+    saveFile(
+      JSON.stringify(state, null, 2),
+      `walker-${state.rootId || 'graph'}.json`,
+      'application/json'
+    );
+  }
+
+  public exportRdf(format: WalkerRdfFormat): void {
+    const state = this._walker.getState();
+    if (!state.nodes.length) {
+      return;
+    }
+    const exporter = new WalkerRdfExporter({
+      prefixes: this.rdfPrefixes || this._prefixes.prefixes,
+    });
+    const info = WALKER_RDF_FORMAT_INFO[format];
+    saveFile(
+      exporter.export(state.nodes, state.edges, format),
+      `walker-graph.${info.extension}`,
+      info.mimeType
+    );
+  }
+
+  public exportGraph(format: WalkerGraphFormat): void {
+    const state = this._walker.getState();
+    if (!state.nodes.length) {
+      return;
+    }
+    const exporter = new WalkerGraphExporter({
+      collapseProperties: this.collapseProperties,
+      styler: this._styler,
+    });
+    const info = WALKER_GRAPH_FORMAT_INFO[format];
+    saveFile(
+      exporter.export(state.nodes, state.edges, format),
+      `walker-graph.${info.extension}`,
+      info.mimeType
+    );
+  }
+
+  private getGraphSvg(): SVGSVGElement | null {
+    return this.graphView
+      ? WalkerImageExporter.findGraphSvg(this.graphView.nativeElement)
+      : null;
+  }
+
+  public exportSvg(): void {
+    const svg = this.getGraphSvg();
+    if (!svg) {
+      return;
+    }
+    const image = new WalkerImageExporter().toSvg(svg, {
+      extent: this.imageViewport ? 'viewport' : 'full',
+    });
+    saveFile(image.svg, 'walker-graph.svg', 'image/svg+xml');
+  }
+
+  public exportPng(scale: number): void {
+    const svg = this.getGraphSvg();
+    if (!svg) {
+      return;
+    }
+    new WalkerImageExporter()
+      .toPng(svg, scale, {
+        extent: this.imageViewport ? 'viewport' : 'full',
+      })
+      .then((blob) => saveFile(blob, 'walker-graph.png'))
+      .catch((error) => {
+        console.error(error);
+        this._snackbar.open('Error exporting image', 'OK');
+      });
+  }
+
+  public loadSession(input: HTMLInputElement): void {
+    const file = input.files?.length ? input.files[0] : null;
+    // reset the input so that the same file can be loaded again
+    input.value = '';
+    if (!file) {
+      return;
+    }
+    readTextFile(file)
+      .then((text) => {
+        const state = JSON.parse(text) as GraphWalkerState;
+        this._walker.setState(state);
+        // the history and errors of the previous session do not apply
+        // to this one
+        this._walker.clearHistory();
+        this._walker.clearErrors();
+        const root = this._walker.getRootNode();
+        if (root) {
+          // avoid resetting when the root input is set
+          this._nodeId = +root.id.substring(1);
+        }
+      })
+      .catch((error) => {
+        console.error(error);
+        this._snackbar.open(
+          'Error loading session: ' + (error?.message || error),
+          'OK'
+        );
+      });
+  }
 }
@@ -8,6 +8,7 @@ import { GraphNodeLookupService } from '@myrmidon/cadmus-graph-ui';
 import { GraphService, UriNode } from '@myrmidon/cadmus-api';
 
 import { PagedLinkedLiteralFilter } from '../../graph-walker';
+import { WalkerPrefixRegistry } from '../../walker-prefixes';
 
 /**
  * Linked literal filter.
@@ -76,7 +77,8 @@ export class LinkedLiteralFilterComponent implements OnInit {
   constructor(
     formBuilder: FormBuilder,
     public lookupService: GraphNodeLookupService,
-    private _graphService: GraphService
+    private _graphService: GraphService,
+    private _prefixes: WalkerPrefixRegistry
   ) {
     this._filter = {
       pageNumber: 1,
@@ -115,7 +117,7 @@ export class LinkedLiteralFilterComponent implements OnInit {
     this.pageNumber.setValue(filter.pageNumber);
     this.pageSize.setValue(filter.pageSize);
     this.litPattern.setValue(filter.literalPattern || null);
-    this.litType.setValue(filter.literalType || null);
+    this.litType.setValue(this._prefixes.compact(filter.literalType) || null);
     this.litLanguage.setValue(filter.literalLanguage || null);
     this.minLitNumber.setValue(filter.minLiteralNumber || null);
     this.maxLitNumber.setValue(filter.maxLiteralNumber || null);
@@ -140,7 +142,7 @@ export class LinkedLiteralFilterComponent implements OnInit {
       pageNumber: +this.pageNumber.value,
       pageSize: +this.pageSize.value,
       literalPattern: this.litPattern.value || undefined,
-      literalType: this.litType.value || undefined,
+      literalType: this._prefixes.expand(this.litType.value) || undefined,
       literalLanguage: this.litLanguage.value || undefined,
       minLiteralNumber: this.minLitNumber.value || undefined,
       maxLiteralNumber: this.maxLitNumber.value || undefined,
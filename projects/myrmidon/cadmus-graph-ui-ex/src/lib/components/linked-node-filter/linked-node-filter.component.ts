@@ -8,6 +8,7 @@ import { GraphNodeLookupService } from '@myrmidon/cadmus-graph-ui';
 import { GraphService, UriNode, NodeSourceType } from '@myrmidon/cadmus-api';
 
 import { PagedLinkedNodeFilter } from '../../graph-walker';
+import { WalkerPrefixRegistry } from '../../walker-prefixes';
 
 /**
  * Linked non-literal node filter.
@@ -80,7 +81,8 @@ export class LinkedNodeFilterComponent implements OnInit {
   constructor(
     formBuilder: FormBuilder,
     public lookupService: GraphNodeLookupService,
-    private _graphService: GraphService
+    private _graphService: GraphService,
+    private _prefixes: WalkerPrefixRegistry
   ) {
     this.otherNodeId = 0;
     this.predicateId = 0;
@@ -128,7 +130,7 @@ export class LinkedNodeFilterComponent implements OnInit {
 
     this.pageNumber.setValue(filter.pageNumber);
     this.pageSize.setValue(filter.pageSize);
-    this.uid.setValue(filter.uid || null);
+    this.uid.setValue(this._prefixes.compact(filter.uid) || null);
     this.isClass.setValue(filter.isClass || null);
     this.tag.setValue(filter.tag || null);
     this.label.setValue(filter.label || null);
@@ -155,7 +157,7 @@ export class LinkedNodeFilterComponent implements OnInit {
     return {
       pageNumber: +this.pageNumber.value,
       pageSize: +this.pageSize.value,
-      uid: this.uid.value || undefined,
+      uid: this._prefixes.expand(this.uid.value) || undefined,
       isClass: this.isClass.value || undefined,
       tag: this.tag.value || undefined,
       label: this.label.value || undefined,
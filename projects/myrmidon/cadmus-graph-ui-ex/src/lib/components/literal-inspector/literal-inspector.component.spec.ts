@@ -0,0 +1,45 @@
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Node as GraphNode } from '@swimlane/ngx-graph';
+
+import { WalkerLitData } from '../../graph-walker';
+import { LiteralInspectorComponent } from './literal-inspector.component';
+
+describe('LiteralInspectorComponent', () => {
+  let component: LiteralInspectorComponent;
+  let snackbar: jasmine.SpyObj<MatSnackBar>;
+
+  beforeEach(() => {
+    snackbar = jasmine.createSpyObj<MatSnackBar>('MatSnackBar', ['open']);
+    component = new LiteralInspectorComponent(snackbar);
+  });
+
+  it('should get the literal of a literal node', () => {
+    const data: WalkerLitData = {
+      originId: 'P14N1',
+      value: 'Petrarca',
+      language: 'it',
+    };
+    component.node = { id: 'L12', label: 'Petrarca', data: data } as GraphNode;
+    expect(component.literal).toBe(data);
+  });
+
+  it('should have no literal for other nodes', () => {
+    component.node = {
+      id: 'N1',
+      label: 'x:petrarca',
+      data: { uri: 'x:petrarca' },
+    } as GraphNode;
+    expect(component.literal).toBeUndefined();
+    component.node = null;
+    expect(component.literal).toBeUndefined();
+  });
+
+  it('should notify the result of copying', () => {
+    component.onCopied(true);
+    expect(snackbar.open.calls.mostRecent().args[0]).toBe('Value copied');
+    component.onCopied(false);
+    expect(snackbar.open.calls.mostRecent().args[0]).toBe(
+      'Error copying value'
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import { Component, Input } from '@angular/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Node as GraphNode } from '@swimlane/ngx-graph';
+
+import { WalkerLitData } from '../../graph-walker';
+
+/**
+ * Literal inspector. This shows the full value of a literal (L) node with
+ * its datatype, language, and numeric value, and lets users copy it.
+ */
+@Component({
+  selector: 'cadmus-walker-literal-inspector',
+  templateUrl: './literal-inspector.component.html',
+  styleUrls: ['./literal-inspector.component.css'],
+})
+export class LiteralInspectorComponent {
+  private _node: GraphNode | undefined | null;
+
+  /**
+   * The literal node to inspect.
+   */
+  @Input()
+  public get node(): GraphNode | undefined | null {
+    return this._node;
+  }
+  public set node(value: GraphNode | undefined | null) {
+    this._node = value;
+    this.literal = value?.id.startsWith('L') ? value.data : undefined;
+  }
+
+  public literal?: WalkerLitData;
+
+  constructor(private _snackbar: MatSnackBar) {}
+
+  public onCopied(ok: boolean): void {
+    this._snackbar.open(ok ? 'Value copied' : 'Error copying value', 'OK', {
+      duration: 1500,
+    });
+  }
+}
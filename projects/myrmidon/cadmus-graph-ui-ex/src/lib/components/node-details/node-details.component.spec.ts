@@ -0,0 +1,95 @@
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Node as GraphNode } from '@swimlane/ngx-graph';
+
+import { NodeDetailsComponent } from './node-details.component';
+
+const ITEM_ID = 'a1f3c8e2-1111-2222-3333-444455556666';
+const PART_ID = 'b2e4d9f3-1111-2222-3333-444455556666';
+
+describe('NodeDetailsComponent', () => {
+  let component: NodeDetailsComponent;
+
+  beforeEach(() => {
+    component = new NodeDetailsComponent(
+      jasmine.createSpyObj<MatSnackBar>('MatSnackBar', ['open']),
+      null
+    );
+  });
+
+  it('should list the fields of a node, skipping empty values', () => {
+    component.node = {
+      id: 'N1',
+      label: 'Petrarca',
+      data: {
+        uri: 'x:petrarca',
+        sourceType: 1,
+        isClass: false,
+        sid: ITEM_ID,
+        tag: '',
+        outTotal: 3,
+        inTotal: 0,
+      },
+    } as GraphNode;
+    expect(component.fields.map((f) => [f.name, f.value])).toEqual([
+      ['uri', 'x:petrarca'],
+      ['source', 'item'],
+      ['class', 'no'],
+      ['SID', ITEM_ID],
+      ['out', '3'],
+      ['in', '0'],
+    ]);
+    expect(component.fields[0].uri).toBeTrue();
+  });
+
+  it('should list the fields of property groups and expander nodes', () => {
+    component.node = {
+      id: 'P10N1',
+      label: 'x:loves',
+      data: { uri: 'x:loves', outTotal: 2 },
+    } as GraphNode;
+    expect(component.fields.map((f) => f.name)).toEqual(['predicate', 'out']);
+    component.node = {
+      id: 'Iabc',
+      label: 'item',
+      data: { key: 'abc' },
+    } as GraphNode;
+    expect(component.fields).toEqual([
+      { name: 'key', value: 'abc', uri: undefined },
+    ]);
+  });
+
+  it('should parse the SID of a node with its item link', () => {
+    component.node = {
+      id: 'N1',
+      label: 'Petrarca',
+      data: { uri: 'x:petrarca', sid: ITEM_ID, sourceType: 1 },
+    } as GraphNode;
+    expect(component.sid?.itemId).toBe(ITEM_ID);
+    expect(component.itemLink).toBe('/items/' + ITEM_ID);
+    expect(component.partLink).toBeUndefined();
+  });
+
+  it('should build links from the source links set', () => {
+    component.node = {
+      id: 'N1',
+      label: 'Petrarca',
+      data: { uri: 'x:petrarca', sid: `${ITEM_ID}/${PART_ID}` },
+    } as GraphNode;
+    component.sourceLinks = {
+      item: '/items/{itemId}',
+      part: '/items/{itemId}/parts/{partId}',
+    };
+    expect(component.partLink).toBe(`/items/${ITEM_ID}/parts/${PART_ID}`);
+  });
+
+  it('should have no SID for nodes other than N', () => {
+    component.node = {
+      id: 'L1',
+      label: 'Petrarca',
+      data: { value: 'Petrarca', sid: ITEM_ID },
+    } as GraphNode;
+    expect(component.sid).toBeUndefined();
+    expect(component.itemLink).toBeUndefined();
+    expect(component.fields).toEqual([]);
+  });
+});
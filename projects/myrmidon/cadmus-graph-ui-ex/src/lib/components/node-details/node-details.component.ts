@@ -0,0 +1,146 @@
+import { Component, Inject, Input, Optional } from '@angular/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Node as GraphNode } from '@swimlane/ngx-graph';
+
+import {
+  buildWalkerSourceLink,
+  parseWalkerSid,
+  WalkerSid,
+  WalkerSourceLinks,
+  WALKER_DEFAULT_SOURCE_LINKS,
+  WALKER_SOURCE_LINKS,
+} from '../../walker-sid';
+
+/**
+ * A field displayed in the node details.
+ */
+export interface WalkerNodeDetailsField {
+  name: string;
+  value: string;
+  /**
+   * True if the value is a URI, to be displayed compacted.
+   */
+  uri?: boolean;
+}
+
+const SOURCE_TYPES = ['user', 'item', 'part', 'thesaurus', 'implicit'];
+
+/**
+ * Node details. This shows the metadata of the selected walker node (N),
+ * property group (P), literal (L) or expander node, each with a button to
+ * copy it. When a node has a SID, its components are shown with links to
+ * the Cadmus editor, as configured via WALKER_SOURCE_LINKS or sourceLinks.
+ */
+@Component({
+  selector: 'cadmus-walker-node-details',
+  templateUrl: './node-details.component.html',
+  styleUrls: ['./node-details.component.css'],
+})
+export class NodeDetailsComponent {
+  private _node: GraphNode | undefined | null;
+  private _sourceLinks: WalkerSourceLinks;
+
+  /**
+   * The node to show.
+   */
+  @Input()
+  public get node(): GraphNode | undefined | null {
+    return this._node;
+  }
+  public set node(value: GraphNode | undefined | null) {
+    if (this._node === value) {
+      return;
+    }
+    this._node = value;
+    this.updateSid();
+  }
+
+  /**
+   * The links to the Cadmus editor. This overrides WALKER_SOURCE_LINKS.
+   */
+  @Input()
+  public get sourceLinks(): WalkerSourceLinks {
+    return this._sourceLinks;
+  }
+  public set sourceLinks(value: WalkerSourceLinks | undefined | null) {
+    this._sourceLinks = value || WALKER_DEFAULT_SOURCE_LINKS;
+    this.updateSid();
+  }
+
+  public sid?: WalkerSid;
+  public itemLink?: string;
+  public partLink?: string;
+
+  constructor(
+    private _snackbar: MatSnackBar,
+    @Optional()
+    @Inject(WALKER_SOURCE_LINKS)
+    sourceLinks: WalkerSourceLinks | null
+  ) {
+    this._sourceLinks = sourceLinks || WALKER_DEFAULT_SOURCE_LINKS;
+  }
+
+  private updateSid(): void {
+    const sid = this._node?.id.startsWith('N')
+      ? parseWalkerSid(this._node.data?.sid, this._node.data?.sourceType)
+      : null;
+    this.sid = sid || undefined;
+    this.itemLink = sid
+      ? buildWalkerSourceLink(this._sourceLinks.item, sid) || undefined
+      : undefined;
+    this.partLink = sid
+      ? buildWalkerSourceLink(this._sourceLinks.part, sid) || undefined
+      : undefined;
+  }
+
+  /**
+   * The fields of the node. These are built on each access, as totals
+   * change while the node gets expanded.
+   */
+  public get fields(): WalkerNodeDetailsField[] {
+    const data = this._node?.data;
+    if (!data) {
+      return [];
+    }
+    const fields: WalkerNodeDetailsField[] = [];
+    const add = (name: string, value: unknown, uri?: boolean) => {
+      if (value !== undefined && value !== null && value !== '') {
+        fields.push({ name, value: String(value), uri });
+      }
+    };
+
+    switch (this._node!.id.charAt(0)) {
+      case 'N':
+        add('uri', data.uri, true);
+        add('source', SOURCE_TYPES[data.sourceType] ?? data.sourceType);
+        add('class', data.isClass ? 'yes' : 'no');
+        add('SID', data.sid);
+        add('tag', data.tag);
+        add('out', data.outTotal);
+        add('in', data.inTotal);
+        break;
+      case 'P':
+        add('predicate', data.uri, true);
+        add('out', data.outTotal);
+        add('in', data.inTotal);
+        add('literals', data.litTotal);
+        break;
+      case 'L':
+        break;
+      default:
+        add('key', data.key);
+        break;
+    }
+    return fields;
+  }
+
+  public trackByName(index: number, field: WalkerNodeDetailsField): string {
+    return field.name;
+  }
+
+  public onCopied(ok: boolean): void {
+    this._snackbar.open(ok ? 'Value copied' : 'Error copying value', 'OK', {
+      duration: 1500,
+    });
+  }
+}
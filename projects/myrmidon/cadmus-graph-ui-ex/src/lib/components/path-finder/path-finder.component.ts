@@ -0,0 +1,151 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnDestroy,
+  Output,
+} from '@angular/core';
+import {
+  FormBuilder,
+  FormControl,
+  FormGroup,
+  Validators,
+} from '@angular/forms';
+import { Subscription } from 'rxjs';
+
+import { GraphNodeLookupService } from '@myrmidon/cadmus-graph-ui';
+
+import { GraphService, UriNode } from '@myrmidon/cadmus-api';
+
+import {
+  GraphPath,
+  GraphPathFinder,
+  GraphPathFinderProgress,
+} from '../../graph-path-finder';
+
+/**
+ * Shortest path finder. This searches the paths connecting a source node
+ * to a target node picked by the user, and emits the paths found.
+ */
+@Component({
+  selector: 'cadmus-walker-path-finder',
+  templateUrl: './path-finder.component.html',
+  styleUrls: ['./path-finder.component.css'],
+})
+export class PathFinderComponent implements OnDestroy {
+  private readonly _finder: GraphPathFinder;
+  private _sub?: Subscription;
+
+  /**
+   * The ID of the source node.
+   */
+  @Input()
+  public sourceId: number | undefined | null;
+
+  /**
+   * The label of the source node.
+   */
+  @Input()
+  public sourceLabel: string | undefined | null;
+
+  /**
+   * Emitted when the user wants to show paths.
+   */
+  @Output()
+  public pathsChange: EventEmitter<GraphPath[]>;
+
+  public target?: UriNode;
+  public progress?: GraphPathFinderProgress;
+  public busy: boolean;
+  public error?: string;
+
+  public maxDepth: FormControl<number>;
+  public maxRequests: FormControl<number>;
+  public skipClasses: FormControl<boolean>;
+  public form: FormGroup;
+
+  constructor(
+    formBuilder: FormBuilder,
+    public lookupService: GraphNodeLookupService,
+    graphService: GraphService
+  ) {
+    this._finder = new GraphPathFinder(graphService);
+    this.busy = false;
+    this.pathsChange = new EventEmitter<GraphPath[]>();
+    // form
+    this.maxDepth = formBuilder.control(4, {
+      validators: [Validators.required, Validators.min(1), Validators.max(8)],
+      nonNullable: true,
+    });
+    this.maxRequests = formBuilder.control(200, {
+      validators: [
+        Validators.required,
+        Validators.min(10),
+        Validators.max(2000),
+      ],
+      nonNullable: true,
+    });
+    this.skipClasses = formBuilder.control(true, { nonNullable: true });
+    this.form = formBuilder.group({
+      maxDepth: this.maxDepth,
+      maxRequests: this.maxRequests,
+      skipClasses: this.skipClasses,
+    });
+  }
+
+  public ngOnDestroy(): void {
+    this._sub?.unsubscribe();
+  }
+
+  public onTargetChange(node: UriNode | null): void {
+    this.target = node || undefined;
+  }
+
+  public find(): void {
+    if (this.busy || this.form.invalid || !this.sourceId || !this.target) {
+      return;
+    }
+    this.busy = true;
+    this.error = undefined;
+    this.progress = undefined;
+
+    this._sub = this._finder
+      .find(this.sourceId, this.target.id, {
+        maxDepth: +this.maxDepth.value,
+        maxRequests: +this.maxRequests.value,
+        skipClasses: this.skipClasses.value,
+      })
+      .subscribe({
+        next: (progress) => {
+          this.progress = progress;
+          if (progress.done && progress.paths.length) {
+            this.pathsChange.emit(progress.paths);
+          }
+        },
+        error: (error) => {
+          console.error(error);
+          this.error = 'Error searching paths';
+          this.busy = false;
+        },
+        complete: () => {
+          this.busy = false;
+        },
+      });
+  }
+
+  public cancel(): void {
+    this._sub?.unsubscribe();
+    this._sub = undefined;
+    this.busy = false;
+  }
+
+  public showPath(path: GraphPath): void {
+    this.pathsChange.emit([path]);
+  }
+
+  public showAllPaths(): void {
+    if (this.progress?.paths.length) {
+      this.pathsChange.emit(this.progress.paths);
+    }
+  }
+}
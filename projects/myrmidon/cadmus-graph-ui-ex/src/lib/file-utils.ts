@@ -0,0 +1,39 @@
+/**
+ * Save the specified content into a file, by letting the browser download it.
+ *
+ * @param content The content to save, either text or a blob.
+ * @param fileName The name of the file to download.
+ * @param type The MIME type of the content when it is text.
+ * Default is plain text.
+ */
+export function saveFile(
+  content: string | Blob,
+  fileName: string,
+  type = 'text/plain;charset=utf-8'
+): void {
+  const blob =
+    typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read the text content of the specified file.
+ *
+ * @param file The file to read.
+ * @returns Promise with the text content.
+ */
+export function readTextFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
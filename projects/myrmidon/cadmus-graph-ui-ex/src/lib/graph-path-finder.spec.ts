@@ -0,0 +1,217 @@
+import { Observable, of, Subject } from 'rxjs';
+
+import {
+  GraphService,
+  LinkedNodeFilter,
+  TripleFilter,
+  UriNode,
+} from '@myrmidon/cadmus-api';
+
+import {
+  GraphPathFinder,
+  GraphPathFinderOptions,
+  GraphPathFinderProgress,
+} from './graph-path-finder';
+
+// the test graph: 1 is linked to 4 via 2 and 3, and via 5; 6 is linked to
+// 1 only via the class 7; 8 is isolated
+const NODES: UriNode[] = [1, 2, 3, 4, 5, 6, 7, 8].map(
+  (id) =>
+    ({
+      id: id,
+      uri: 'x:n' + id,
+      label: 'n' + id,
+      isClass: id === 7,
+      sourceType: 0,
+    } as UriNode)
+);
+// subject, predicate, object
+const TRIPLES = [
+  [1, 10, 2],
+  [2, 11, 3],
+  [3, 10, 4],
+  [1, 12, 5],
+  [5, 10, 4],
+  [1, 13, 7],
+  [6, 13, 7],
+];
+
+describe('GraphPathFinder', () => {
+  let service: GraphService;
+  let requests: number;
+  // when set, responses are deferred until flushed
+  let deferred: { subject: Subject<unknown>; value: unknown }[] | null;
+
+  const respond = <T>(value: T): Observable<T> => {
+    requests++;
+    if (!deferred) {
+      return of(value);
+    }
+    const subject = new Subject<T>();
+    deferred.push({ subject: subject as Subject<unknown>, value: value });
+    return subject.asObservable();
+  };
+
+  const flush = () => {
+    for (const d of deferred!.splice(0)) {
+      d.subject.next(d.value);
+      d.subject.complete();
+    }
+  };
+
+  // find paths collecting the progress emitted
+  const find = (
+    sourceId: number,
+    targetId: number,
+    options?: GraphPathFinderOptions
+  ): GraphPathFinderProgress[] => {
+    const progress: GraphPathFinderProgress[] = [];
+    new GraphPathFinder(service)
+      .find(sourceId, targetId, options)
+      .subscribe((p) => progress.push(p));
+    return progress;
+  };
+
+  beforeEach(() => {
+    requests = 0;
+    deferred = null;
+    service = {
+      getNode: (id: number) => respond(NODES.find((n) => n.id === id)!),
+      getTripleGroups: (
+        pageNumber: number,
+        pageSize: number,
+        filter: TripleFilter
+      ) => {
+        const triples = TRIPLES.filter((t) =>
+          filter.subjectId
+            ? t[0] === filter.subjectId
+            : t[2] === filter.objectId
+        );
+        const predicates = [...new Set(triples.map((t) => t[1]))];
+        return respond({
+          pageNumber: pageNumber,
+          pageSize: pageSize,
+          pageCount: 1,
+          total: predicates.length,
+          items: predicates.map((p) => ({
+            predicateId: p,
+            predicateUri: 'x:p' + p,
+            count: triples.filter((t) => t[1] === p).length,
+          })),
+        });
+      },
+      getLinkedNodes: (
+        pageNumber: number,
+        pageSize: number,
+        filter: LinkedNodeFilter
+      ) => {
+        const items = TRIPLES.filter(
+          (t) =>
+            t[1] === filter.predicateId &&
+            (filter.isObject
+              ? t[0] === filter.otherNodeId
+              : t[2] === filter.otherNodeId)
+        ).map((t) => NODES.find((n) => n.id === t[filter.isObject ? 2 : 0])!);
+        return respond({
+          pageNumber: pageNumber,
+          pageSize: pageSize,
+          pageCount: 1,
+          total: items.length,
+          items: items,
+        });
+      },
+    } as unknown as GraphService;
+  });
+
+  it('should find the shortest path', () => {
+    const progress = find(1, 4);
+    const last = progress[progress.length - 1];
+    expect(last.done).toBeTrue();
+    expect(last.limit).toBeUndefined();
+    expect(last.paths.length).toBe(1);
+    expect(last.paths[0].nodes.map((n) => n.id)).toEqual([1, 5, 4]);
+    expect(last.paths[0].steps).toEqual([
+      {
+        subjectId: 1,
+        predicateId: 12,
+        predicateUri: 'x:p12',
+        objectId: 5,
+        count: 1,
+      },
+      {
+        subjectId: 5,
+        predicateId: 10,
+        predicateUri: 'x:p10',
+        objectId: 4,
+        count: 2,
+      },
+    ]);
+  });
+
+  it('should emit progress for each level', () => {
+    const progress = find(1, 4);
+    expect(progress.map((p) => [p.depth, p.done])).toEqual([
+      [1, false],
+      [2, true],
+    ]);
+    expect(progress[1].requests).toBe(requests);
+  });
+
+  it('should find a path from a node to itself', () => {
+    const progress = find(2, 2);
+    expect(progress.length).toBe(1);
+    expect(progress[0].paths[0].nodes.map((n) => n.id)).toEqual([2]);
+    expect(progress[0].paths[0].steps).toEqual([]);
+  });
+
+  it('should stop at the max depth', () => {
+    const progress = find(1, 4, { maxDepth: 1 });
+    const last = progress[progress.length - 1];
+    expect(last.done).toBeTrue();
+    expect(last.limit).toBe('depth');
+    expect(last.paths).toEqual([]);
+  });
+
+  it('should stop at the max requests', () => {
+    const progress = find(1, 4, { maxRequests: 3 });
+    const last = progress[progress.length - 1];
+    expect(last.done).toBeTrue();
+    expect(last.limit).toBe('requests');
+    expect(requests).toBe(2);
+  });
+
+  it('should end without paths when nodes are not connected', () => {
+    const progress = find(1, 8);
+    const last = progress[progress.length - 1];
+    expect(last.done).toBeTrue();
+    expect(last.limit).toBeUndefined();
+    expect(last.paths).toEqual([]);
+  });
+
+  it('should not walk through classes unless requested', () => {
+    let progress = find(1, 6);
+    expect(progress[progress.length - 1].paths).toEqual([]);
+    progress = find(1, 6, { skipClasses: false });
+    const paths = progress[progress.length - 1].paths;
+    expect(paths.length).toBe(1);
+    expect(paths[0].nodes.map((n) => n.id)).toEqual([1, 7, 6]);
+  });
+
+  it('should cancel the search when unsubscribed', () => {
+    deferred = [];
+    const progress: GraphPathFinderProgress[] = [];
+    const sub = new GraphPathFinder(service)
+      .find(1, 4)
+      .subscribe((p) => progress.push(p));
+    // origin nodes
+    flush();
+    // triple groups of the first node
+    expect(deferred.length).toBe(2);
+    sub.unsubscribe();
+    expect(deferred.every((d) => !d.subject.observed)).toBeTrue();
+    const count = requests;
+    flush();
+    expect(requests).toBe(count);
+    expect(progress).toEqual([]);
+  });
+});
@@ -0,0 +1,353 @@
+import { forkJoin, Observable, of, Subscription } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+
+import { GraphService, TripleGroup, UriNode } from '@myrmidon/cadmus-api';
+
+/**
+ * A step in a graph path, i.e. a triple connecting two consecutive nodes
+ * of the path. The triple can be traversed in both directions, so its
+ * subject can be either the previous or the next node in the path.
+ */
+export interface GraphPathStep {
+  subjectId: number;
+  predicateId: number;
+  predicateUri: string;
+  objectId: number;
+  /**
+   * The count of triples in the predicate group this step belongs to.
+   */
+  count: number;
+}
+
+/**
+ * A path connecting two graph nodes.
+ */
+export interface GraphPath {
+  /**
+   * The nodes of the path, from the source to the target.
+   */
+  nodes: UriNode[];
+  /**
+   * The steps of the path: step i connects nodes i and i+1.
+   */
+  steps: GraphPathStep[];
+}
+
+/**
+ * Options for the graph path finder.
+ */
+export interface GraphPathFinderOptions {
+  /**
+   * The maximum path length, in triples. Default is 4.
+   */
+  maxDepth?: number;
+  /**
+   * The maximum number of requests to the server. Default is 200.
+   */
+  maxRequests?: number;
+  /**
+   * The page size for predicate groups and linked nodes fetched for each
+   * node. Default is 20.
+   */
+  pageSize?: number;
+  /**
+   * The maximum number of paths to return. Default is 5.
+   */
+  maxPaths?: number;
+  /**
+   * True to avoid walking through class nodes, which would connect
+   * all their instances. Default is true.
+   */
+  skipClasses?: boolean;
+}
+
+/**
+ * The progress of a graph path search.
+ */
+export interface GraphPathFinderProgress {
+  depth: number;
+  requests: number;
+  visited: number;
+  paths: GraphPath[];
+  done: boolean;
+  /**
+   * The limit which stopped the search, if any.
+   */
+  limit?: 'depth' | 'requests';
+}
+
+// a link from a node to one of its neighbors
+interface NodeLink {
+  fromId: number;
+  node: UriNode;
+  group: TripleGroup;
+  // true if fromId is the subject of the triple
+  isOut: boolean;
+}
+
+/**
+ * Graph path finder. This runs a bounded bidirectional breadth-first search
+ * to find the shortest paths connecting two nodes, using the graph service
+ * to get the neighbors of each node.
+ */
+export class GraphPathFinder {
+  constructor(private _graphService: GraphService) {}
+
+  private getGroupLinks(
+    id: number,
+    group: TripleGroup,
+    isOut: boolean,
+    pageSize: number
+  ): Observable<NodeLink[]> {
+    return this._graphService
+      .getLinkedNodes(1, pageSize, {
+        otherNodeId: id,
+        predicateId: group.predicateId,
+        isObject: isOut,
+      })
+      .pipe(
+        map((page) =>
+          page.items.map((n) => ({
+            fromId: id,
+            node: n,
+            group: group,
+            isOut: isOut,
+          }))
+        )
+      );
+  }
+
+  /**
+   * Get the neighbors of the specified node, within the specified budget.
+   *
+   * @param id The node ID.
+   * @param pageSize The page size.
+   * @param budget The max number of requests available.
+   * @param onRequests Callback invoked with the number of requests made.
+   * @returns Observable with the links to neighbors.
+   */
+  private getNeighbors(
+    id: number,
+    pageSize: number,
+    budget: number,
+    onRequests: (count: number) => void
+  ): Observable<NodeLink[]> {
+    if (budget < 2) {
+      return of([]);
+    }
+    onRequests(2);
+    return forkJoin({
+      outs: this._graphService.getTripleGroups(1, pageSize, { subjectId: id }),
+      ins: this._graphService.getTripleGroups(1, pageSize, { objectId: id }),
+    }).pipe(
+      switchMap((result) => {
+        const groups: [TripleGroup, boolean][] = [
+          ...result.outs.items.map((g) => [g, true] as [TripleGroup, boolean]),
+          ...result.ins.items.map((g) => [g, false] as [TripleGroup, boolean]),
+        ].slice(0, budget - 2);
+        if (!groups.length) {
+          return of([]);
+        }
+        onRequests(groups.length);
+        return forkJoin(
+          groups.map((g) => this.getGroupLinks(id, g[0], g[1], pageSize))
+        ).pipe(map((links) => links.flat()));
+      })
+    );
+  }
+
+  /**
+   * Build the path passing through the specified meeting node.
+   *
+   * @param meetingNode The node where the two searches met.
+   * @param parents The parent links for each search side.
+   * @param origins The origin nodes of each search side.
+   * @returns The path.
+   */
+  private buildPath(
+    meetingNode: UriNode,
+    parents: Map<number, NodeLink | null>[],
+    origins: UriNode[]
+  ): GraphPath {
+    const nodes: UriNode[] = [meetingNode];
+    const steps: GraphPathStep[] = [];
+    const toStep = (link: NodeLink, otherId: number): GraphPathStep => ({
+      subjectId: link.isOut ? link.fromId : otherId,
+      predicateId: link.group.predicateId,
+      predicateUri: link.group.predicateUri,
+      objectId: link.isOut ? otherId : link.fromId,
+      count: link.group.count,
+    });
+
+    // walk back to the source
+    let link = parents[0].get(meetingNode.id);
+    while (link) {
+      steps.unshift(toStep(link, nodes[0].id));
+      const prev = parents[0].get(link.fromId);
+      nodes.unshift(prev ? prev.node : origins[0]);
+      link = prev;
+    }
+    // walk forward to the target
+    link = parents[1].get(meetingNode.id);
+    while (link) {
+      steps.push(toStep(link, nodes[nodes.length - 1].id));
+      const next = parents[1].get(link.fromId);
+      nodes.push(next ? next.node : origins[1]);
+      link = next;
+    }
+    return { nodes, steps };
+  }
+
+  /**
+   * Find the shortest paths between the specified nodes. The search
+   * emits its progress after each explored level, and completes when paths
+   * are found or a limit is reached. Unsubscribe to cancel the search.
+   *
+   * @param sourceId The source node ID.
+   * @param targetId The target node ID.
+   * @param options The search options.
+   * @returns Observable with the search progress.
+   */
+  public find(
+    sourceId: number,
+    targetId: number,
+    options?: GraphPathFinderOptions
+  ): Observable<GraphPathFinderProgress> {
+    const maxDepth = options?.maxDepth ?? 4;
+    const maxRequests = options?.maxRequests ?? 200;
+    const pageSize = options?.pageSize ?? 20;
+    const maxPaths = options?.maxPaths ?? 5;
+    const skipClasses = options?.skipClasses ?? true;
+
+    return new Observable<GraphPathFinderProgress>((subscriber) => {
+      let sub: Subscription | undefined;
+      let requests = 0;
+      let depth = 0;
+      const parents: Map<number, NodeLink | null>[] = [
+        new Map<number, NodeLink | null>([[sourceId, null]]),
+        new Map<number, NodeLink | null>([[targetId, null]]),
+      ];
+      const frontiers: number[][] = [[sourceId], [targetId]];
+      const origins: UriNode[] = [];
+
+      const emit = (
+        paths: GraphPath[],
+        done: boolean,
+        limit?: 'depth' | 'requests'
+      ) => {
+        subscriber.next({
+          depth,
+          requests,
+          visited: parents[0].size + parents[1].size,
+          paths,
+          done,
+          limit,
+        });
+        if (done) {
+          subscriber.complete();
+        }
+      };
+
+      const start = () => {
+        // load the origin nodes to have their data in paths
+        sub = forkJoin({
+          s: this._graphService.getNode(sourceId),
+          t: this._graphService.getNode(targetId),
+        }).subscribe({
+          next: (result) => {
+            requests += 2;
+            origins.push(result.s, result.t);
+            if (sourceId === targetId) {
+              emit([{ nodes: [result.s], steps: [] }], true);
+              return;
+            }
+            expandLevel();
+          },
+          error: (error) => subscriber.error(error),
+        });
+      };
+
+      const expandLevel = () => {
+        if (depth >= maxDepth) {
+          emit([], true, 'depth');
+          return;
+        }
+        // expanding a node requires at least 2 requests
+        if (maxRequests - requests < 2) {
+          emit([], true, 'requests');
+          return;
+        }
+        // expand the smaller frontier
+        const side = frontiers[0].length <= frontiers[1].length ? 0 : 1;
+        const frontier = frontiers[side];
+        if (!frontier.length) {
+          emit([], true);
+          return;
+        }
+        const next: number[] = [];
+        const meetings: UriNode[] = [];
+        let i = 0;
+
+        const expandNext = () => {
+          if (i >= frontier.length || maxRequests - requests < 2) {
+            depth++;
+            frontiers[side] = next;
+            if (meetings.length) {
+              emit(
+                meetings
+                  .slice(0, maxPaths)
+                  .map((m) => this.buildPath(m, parents, origins)),
+                true
+              );
+            } else if (i < frontier.length) {
+              emit([], true, 'requests');
+            } else {
+              emit([], false);
+              expandLevel();
+            }
+            return;
+          }
+          const id = frontier[i++];
+          sub = this.getNeighbors(
+            id,
+            pageSize,
+            maxRequests - requests,
+            (n) => (requests += n)
+          ).subscribe({
+            next: (links) => {
+              for (const link of links) {
+                const otherId = link.node.id;
+                // class nodes are neither walked through nor meeting points,
+                // unless they are the origin of the other side
+                if (
+                  parents[side].has(otherId) ||
+                  (skipClasses &&
+                    link.node.isClass &&
+                    otherId !== sourceId &&
+                    otherId !== targetId)
+                ) {
+                  continue;
+                }
+                parents[side].set(otherId, link);
+                if (parents[1 - side].has(otherId)) {
+                  meetings.push(link.node);
+                } else {
+                  next.push(otherId);
+                }
+              }
+              expandNext();
+            },
+            error: (error) => subscriber.error(error),
+          });
+        };
+        expandNext();
+      };
+
+      start();
+
+      return () => {
+        sub?.unsubscribe();
+      };
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { ClusterNode, Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+
+import {
+  clusterByClass,
+  clusterByOrigin,
+  clusterBySidPrefix,
+  WALKER_CLUSTER_COLORS,
+  WALKER_CLUSTER_STRATEGIES,
+} from './graph-walker-clusters';
+
+const node = (
+  id: string,
+  label: string,
+  data: Record<string, unknown>
+): GraphNode => ({ id: id, label: label, data: data });
+
+// Petrarca (N1) is a poet and a person, loves Laura (N2), a person, and
+// lived in Avignon (N3); Boccaccio (N6) is a poet, linked via an inbound
+// property group of the poet class
+const NODES: GraphNode[] = [
+  node('N1', 'Petrarca', { originId: '', sid: 'a1b2/0' }),
+  node('N2', 'Laura', { originId: 'P12N1', sid: 'a1b2:person' }),
+  node('N3', 'Avignon', { originId: 'P13N1', sid: 'c3d4/1' }),
+  node('N4', 'poet', { originId: 'P10N1', isClass: true }),
+  node('N5', 'person', { originId: 'P11N1', isClass: true }),
+  node('N6', 'Boccaccio', { originId: '', sid: 'e5f6' }),
+  node('P10N1', '1', { originId: 'N1', uri: 'rdf:type' }),
+  node('P11N1', '1', { originId: 'N1', uri: 'a' }),
+  node('P12N1', '1', { originId: 'N1', uri: 'x:loves' }),
+  node('P13N1', '1', { originId: 'N1', uri: 'x:livedIn' }),
+  node('P10N2', '1', { originId: 'N2', uri: 'rdf:type' }),
+  node('P10N4', '1', { originId: 'N4', uri: 'rdf:type' }),
+];
+
+const EDGES: Edge[] = [
+  ['N1', 'P10N1'],
+  ['P10N1', 'N4'],
+  ['N1', 'P11N1'],
+  ['P11N1', 'N5'],
+  ['N1', 'P12N1'],
+  ['P12N1', 'N2'],
+  ['N1', 'P13N1'],
+  ['P13N1', 'N3'],
+  ['N2', 'P10N2'],
+  ['P10N2', 'N5'],
+  ['N4', 'P10N4'],
+  ['N6', 'P10N4'],
+].map(([s, t]) => ({ id: `E${s}_${t}`, source: s, target: t }));
+
+// get the clusters as ID: child node IDs
+const getMembers = (clusters: ClusterNode[]): Record<string, string[]> => {
+  const members: Record<string, string[]> = {};
+  clusters.forEach((c) => (members[c.id] = c.childNodeIds!));
+  return members;
+};
+
+describe('clusterByOrigin', () => {
+  it('should cluster each node with its property groups', () => {
+    const clusters = clusterByOrigin(NODES, EDGES);
+    expect(getMembers(clusters)).toEqual({
+      CN1: ['N1', 'P10N1', 'P11N1', 'P12N1', 'P13N1'],
+      CN2: ['N2', 'P10N2'],
+      CN4: ['N4', 'P10N4'],
+    });
+    expect(clusters.map((c) => c.label)).toEqual(['Petrarca', 'Laura', 'poet']);
+  });
+
+  it('should cycle the cluster colors', () => {
+    const nodes: GraphNode[] = [];
+    for (let i = 1; i <= WALKER_CLUSTER_COLORS.length + 1; i++) {
+      nodes.push(node('N' + i, 'n' + i, {}));
+      nodes.push(node(`P1N${i}`, '1', { originId: 'N' + i, uri: 'x:p' }));
+    }
+    const clusters = clusterByOrigin(nodes, []);
+    expect(clusters.map((c) => c.data.color)).toEqual([
+      ...WALKER_CLUSTER_COLORS,
+      WALKER_CLUSTER_COLORS[0],
+    ]);
+  });
+});
+
+describe('clusterBySidPrefix', () => {
+  it('should cluster nodes sharing a SID prefix', () => {
+    const clusters = clusterBySidPrefix(NODES, EDGES);
+    expect(getMembers(clusters)).toEqual({ CSa1b2: ['N1', 'N2'] });
+    expect(clusters[0].label).toBe('a1b2');
+  });
+
+  it('should not cluster single nodes', () => {
+    expect(
+      clusterBySidPrefix(
+        NODES.filter((n) => n.id !== 'N2'),
+        EDGES
+      )
+    ).toEqual([]);
+  });
+});
+
+describe('clusterByClass', () => {
+  it('should cluster instances by their first class', () => {
+    const clusters = clusterByClass(NODES, EDGES);
+    expect(getMembers(clusters)).toEqual({
+      CCN4: ['N1', 'N6'],
+      CCN5: ['N2'],
+    });
+    expect(clusters.map((c) => c.label)).toEqual(['poet', 'person']);
+  });
+
+  it('should ignore classes not in the graph', () => {
+    const nodes = NODES.filter((n) => n.id !== 'N4' && n.id !== 'P10N4');
+    expect(getMembers(clusterByClass(nodes, EDGES))).toEqual({
+      CCN5: ['N1', 'N2'],
+    });
+  });
+});
+
+describe('WALKER_CLUSTER_STRATEGIES', () => {
+  it('should put each node in at most one cluster', () => {
+    Object.values(WALKER_CLUSTER_STRATEGIES).forEach((strategy) => {
+      const ids = strategy(NODES, EDGES).flatMap((c) => c.childNodeIds!);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+  });
+});
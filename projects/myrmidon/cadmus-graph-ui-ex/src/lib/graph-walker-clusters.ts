@@ -0,0 +1,168 @@
+import { ClusterNode, Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+
+import { getWalkerTriples } from './walker-triples';
+
+/**
+ * The clustering mode for the graph walker.
+ * - none: no clusters.
+ * - origin: each N node with its property groups.
+ * - sid: N nodes sharing the same SID prefix (i.e. the item they derive from).
+ * - class: N nodes sharing the same class, via rdf:type.
+ */
+export type WalkerClusterMode = 'none' | 'origin' | 'sid' | 'class';
+
+/**
+ * A function building clusters from the walker's nodes and edges.
+ * Each node should belong to at most one cluster.
+ */
+export type WalkerClusterStrategy = (
+  nodes: GraphNode[],
+  edges: Edge[]
+) => ClusterNode[];
+
+/**
+ * The colors assigned to clusters, cycled when there are more clusters
+ * than colors.
+ */
+export const WALKER_CLUSTER_COLORS = [
+  '#e3f2fd',
+  '#fce4ec',
+  '#e8f5e9',
+  '#fff3e0',
+  '#ede7f6',
+  '#e0f7fa',
+  '#f9fbe7',
+  '#efebe9',
+];
+
+/**
+ * The URIs of the predicates used to assign a class to a node.
+ */
+export const WALKER_TYPE_PREDICATES = [
+  'rdf:type',
+  'a',
+  'http://www.w3.org/1999/02/22-rdf-syntax-ns#type',
+];
+
+function buildCluster(
+  id: string,
+  label: string,
+  childNodeIds: string[],
+  index: number
+): ClusterNode {
+  return {
+    id: id,
+    label: label,
+    childNodeIds: childNodeIds,
+    data: {
+      color: WALKER_CLUSTER_COLORS[index % WALKER_CLUSTER_COLORS.length],
+    },
+  };
+}
+
+/**
+ * Cluster nodes by origin: each N node having property groups gets
+ * a cluster including itself and all the property groups derived from it.
+ */
+export function clusterByOrigin(
+  nodes: GraphNode[],
+  edges: Edge[]
+): ClusterNode[] {
+  const clusters: ClusterNode[] = [];
+  for (const node of nodes.filter((n) => n.id.startsWith('N'))) {
+    const props = nodes.filter(
+      (n) => n.id.startsWith('P') && n.data?.originId === node.id
+    );
+    if (props.length) {
+      clusters.push(
+        buildCluster(
+          'C' + node.id,
+          node.label || node.id,
+          [node.id, ...props.map((p) => p.id)],
+          clusters.length
+        )
+      );
+    }
+  }
+  return clusters;
+}
+
+/**
+ * Cluster nodes by their SID prefix, i.e. the item (or part) GUID the
+ * SID starts with. Only groups with at least 2 nodes are clustered.
+ */
+export function clusterBySidPrefix(
+  nodes: GraphNode[],
+  edges: Edge[]
+): ClusterNode[] {
+  const groups = new Map<string, string[]>();
+  for (const node of nodes.filter((n) => n.id.startsWith('N'))) {
+    const sid: string | undefined = node.data?.sid;
+    if (!sid) {
+      continue;
+    }
+    const prefix = sid.split(/[/:]/)[0];
+    if (!groups.has(prefix)) {
+      groups.set(prefix, []);
+    }
+    groups.get(prefix)!.push(node.id);
+  }
+
+  const clusters: ClusterNode[] = [];
+  groups.forEach((ids, prefix) => {
+    if (ids.length > 1) {
+      clusters.push(buildCluster('CS' + prefix, prefix, ids, clusters.length));
+    }
+  });
+  return clusters;
+}
+
+/**
+ * Cluster nodes by class, as defined by rdf:type property groups. Each
+ * instance node belongs to the cluster of the first class found for it.
+ */
+export function clusterByClass(
+  nodes: GraphNode[],
+  edges: Edge[]
+): ClusterNode[] {
+  const nodeMap = new Map<string, GraphNode>(nodes.map((n) => [n.id, n]));
+  // class node ID: instance node IDs
+  const groups = new Map<string, string[]>();
+  const assigned = new Set<string>();
+  const assign = (instanceId: string, classId: string) => {
+    if (assigned.has(instanceId) || !nodeMap.has(classId)) {
+      return;
+    }
+    assigned.add(instanceId);
+    if (!groups.has(classId)) {
+      groups.set(classId, []);
+    }
+    groups.get(classId)!.push(instanceId);
+  };
+
+  for (const triple of getWalkerTriples(nodes, edges)) {
+    if (WALKER_TYPE_PREDICATES.includes(triple.predicate)) {
+      assign(triple.subjectId, triple.objectId);
+    }
+  }
+
+  const clusters: ClusterNode[] = [];
+  groups.forEach((ids, classId) => {
+    const cls = nodeMap.get(classId)!;
+    clusters.push(
+      buildCluster('CC' + classId, cls.label || cls.id, ids, clusters.length)
+    );
+  });
+  return clusters;
+}
+
+/**
+ * The builtin cluster strategies, keyed by cluster mode.
+ */
+export const WALKER_CLUSTER_STRATEGIES: {
+  [key in Exclude<WalkerClusterMode, 'none'>]: WalkerClusterStrategy;
+} = {
+  origin: clusterByOrigin,
+  sid: clusterBySidPrefix,
+  class: clusterByClass,
+};
@@ -0,0 +1,455 @@
+import { Observable, Subject } from 'rxjs';
+import { switchMap, take } from 'rxjs/operators';
+import { Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+
+import {
+  GraphService,
+  LinkedLiteralFilter,
+  LinkedNodeFilter,
+  TripleFilter,
+} from '@myrmidon/cadmus-api';
+
+import {
+  GraphWalker,
+  GraphWalkerEvent,
+  WalkerExpandProgress,
+} from './graph-walker';
+import { WalkerError } from './walker-errors';
+import {
+  WalkerMemoryGraphDataset,
+  WalkerMemoryGraphService,
+} from './walker-memory-graph';
+
+// Petrarca (1) loves Laura (2) and lived in Avignon (3), which is in
+// Provence (5); Boccaccio (4) lived in Avignon too
+const DATASET: WalkerMemoryGraphDataset = {
+  nodes: [
+    { id: 1, uri: 'x:petrarca', label: 'Petrarca', sourceType: 0 },
+    { id: 2, uri: 'x:laura', label: 'Laura', sourceType: 0 },
+    { id: 3, uri: 'x:avignon', label: 'Avignon', sourceType: 0 },
+    { id: 4, uri: 'x:boccaccio', label: 'Boccaccio', sourceType: 0 },
+    { id: 5, uri: 'x:provence', label: 'Provence', sourceType: 0 },
+    // predicates
+    { id: 12, uri: 'x:loves', sourceType: 0 },
+    { id: 13, uri: 'x:livedIn', sourceType: 0 },
+    { id: 14, uri: 'rdfs:label', sourceType: 0 },
+    { id: 16, uri: 'x:in', sourceType: 0 },
+  ],
+  triples: [
+    { id: 1, subjectId: 1, predicateId: 12, objectId: 2 },
+    { id: 2, subjectId: 1, predicateId: 13, objectId: 3 },
+    { id: 3, subjectId: 4, predicateId: 13, objectId: 3 },
+    { id: 4, subjectId: 3, predicateId: 16, objectId: 5 },
+    {
+      id: 5,
+      subjectId: 1,
+      predicateId: 14,
+      objectLiteral: 'Petrarch',
+      literalLanguage: 'en',
+    },
+  ],
+} as WalkerMemoryGraphDataset;
+
+describe('GraphWalker', () => {
+  let walker: GraphWalker;
+  let nodes: GraphNode[];
+  let edges: Edge[];
+  // when set, responses wait until released, like late responses
+  let gate: Subject<void> | null;
+
+  const hold = <T>(request$: Observable<T>): Observable<T> =>
+    gate
+      ? gate.pipe(
+          take(1),
+          switchMap(() => request$)
+        )
+      : request$;
+
+  const release = () => {
+    const g = gate!;
+    gate = null;
+    g.next();
+  };
+
+  const getNode = (id: string): GraphNode => {
+    const node = nodes.find((n) => n.id === id);
+    if (!node) {
+      throw new Error('Node not found: ' + id);
+    }
+    return node;
+  };
+
+  const getIds = (): string[] => nodes.map((n) => n.id).sort();
+
+  beforeEach(() => {
+    gate = null;
+    // delay 0 gives synchronous responses
+    const memory = new WalkerMemoryGraphService(DATASET);
+    const service = {
+      getNode: (id: number) => hold(memory.getNode(id)),
+      getTripleGroups: (n: number, s: number, f: TripleFilter) =>
+        hold(memory.getTripleGroups(n, s, f)),
+      getLinkedNodes: (n: number, s: number, f: LinkedNodeFilter) =>
+        hold(memory.getLinkedNodes(n, s, f)),
+      getLinkedLiterals: (n: number, s: number, f: LinkedLiteralFilter) =>
+        hold(memory.getLinkedLiterals(n, s, f)),
+    } as unknown as GraphService;
+    walker = new GraphWalker(service, { enabled: false });
+    walker.retryOptions = { count: 0, delay: 0 };
+    walker.nodes$.subscribe((n) => (nodes = n));
+    walker.edges$.subscribe((e) => (edges = e));
+    walker.reset(1);
+  });
+
+  afterEach(() => {
+    walker.dispose();
+  });
+
+  describe('loading', () => {
+    it('should load a root with its property groups', () => {
+      expect(getIds()).toEqual(['N1', 'P12N1', 'P13N1', 'P14N1']);
+      expect(getNode('N1').data.expanded).toBeTrue();
+      expect(getNode('P13N1').data.originId).toBe('N1');
+    });
+
+    it('should expand a property group', () => {
+      walker.expandProperty(getNode('P13N1'));
+      expect(getIds()).toContain('N3');
+      expect(getNode('N3').data.originId).toBe('P13N1');
+      expect(edges.some((e) => e.id === 'EP13N1_N3')).toBeTrue();
+      walker.expandProperty(getNode('P14N1'));
+      expect(getNode('L5').data.value).toBe('Petrarch');
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should cancel a pending load when toggling its node', () => {
+      gate = new Subject<void>();
+      walker.expandProperty(getNode('P13N1'));
+      expect(walker.isPending('P13N1')).toBeTrue();
+      walker.toggleNode(getNode('P13N1'));
+      expect(walker.isPending('P13N1')).toBeFalse();
+      release();
+      expect(getIds()).not.toContain('N3');
+      expect(getNode('P13N1').data.expanded).toBeFalsy();
+    });
+
+    it('should cancel the pending loads of collapsed descendants', () => {
+      gate = new Subject<void>();
+      walker.expandProperty(getNode('P13N1'));
+      walker.toggleNode(getNode('N1'));
+      expect(walker.isPending('P13N1')).toBeFalse();
+      release();
+      expect(getIds()).toEqual(['N1']);
+    });
+
+    it('should supersede an older request for the same node', () => {
+      gate = new Subject<void>();
+      walker.expandNode(getNode('N1'), { pageSize: 1 });
+      walker.expandNode(getNode('N1'), { pageSize: 2 });
+      release();
+      expect(getIds()).toEqual(['N1', 'P13N1', 'P14N1']);
+      expect(getNode('N1').data.outFilter.pageSize).toBe(2);
+    });
+
+    it('should keep the filters of a node until its response arrives', () => {
+      gate = new Subject<void>();
+      walker.expandNode(getNode('N1'), { pageSize: 1 });
+      expect(getNode('N1').data.outFilter.pageSize).toBe(10);
+      walker.cancelAll();
+      release();
+      expect(getNode('N1').data.outFilter.pageSize).toBe(10);
+      expect(getIds()).toEqual(['N1', 'P12N1', 'P13N1', 'P14N1']);
+    });
+
+    it('should drop a response for a removed node', () => {
+      walker.addRoot(4);
+      gate = new Subject<void>();
+      walker.expandNode(getNode('N4'));
+      walker.removeRoot(4);
+      release();
+      expect(getIds()).toEqual(['N1', 'P12N1', 'P13N1', 'P14N1']);
+    });
+  });
+
+  describe('pending count', () => {
+    it('should count the pending requests', () => {
+      let pending = 0;
+      walker.pending$.subscribe((p) => (pending = p));
+      gate = new Subject<void>();
+      walker.expandProperty(getNode('P12N1'));
+      walker.expandProperty(getNode('P13N1'));
+      expect(pending).toBe(2);
+      walker.cancel('P12N1');
+      expect(pending).toBe(1);
+      release();
+      expect(pending).toBe(0);
+    });
+
+    it('should reset the pending count when cancelling all', () => {
+      let loading = false;
+      let pending = 0;
+      walker.loading$.subscribe((l) => (loading = l));
+      walker.pending$.subscribe((p) => (pending = p));
+      gate = new Subject<void>();
+      walker.expandProperty(getNode('P12N1'));
+      walker.expandProperty(getNode('P13N1'));
+      expect(loading).toBeTrue();
+      walker.cancelAll();
+      expect(pending).toBe(0);
+      expect(loading).toBeFalse();
+    });
+  });
+
+  describe('collapsing', () => {
+    it('should remove the descendants of a collapsed node', () => {
+      walker.expandProperty(getNode('P13N1'));
+      walker.expandNode(getNode('N3'));
+      expect(getIds()).toContain('P16N3');
+      walker.toggleNode(getNode('P13N1'));
+      expect(getIds()).toEqual(['N1', 'P12N1', 'P13N1', 'P14N1']);
+      expect(edges.every((e) => e.source !== 'N3' && e.target !== 'N3'))
+        .withContext('dangling edges')
+        .toBeTrue();
+    });
+
+    it('should keep the descendants reachable from another root', () => {
+      walker.expandProperty(getNode('P13N1'));
+      walker.addRoot(4);
+      walker.expandProperty(getNode('P13N4'));
+      walker.toggleNode(getNode('P13N1'));
+      expect(getIds()).toContain('N3');
+      expect(getNode('N3').data.originId).toBe('P13N4');
+    });
+
+    it('should keep pinned nodes', () => {
+      walker.expandProperty(getNode('P13N1'));
+      walker.setPinned('N3', true);
+      walker.toggleNode(getNode('P13N1'));
+      expect(getIds()).toContain('N3');
+      walker.setPinned('N3', false);
+      walker.expandProperty(getNode('P13N1'));
+      walker.toggleNode(getNode('P13N1'));
+      expect(getIds()).not.toContain('N3');
+    });
+  });
+
+  describe('roots', () => {
+    it('should collapse a removed root kept under another root', () => {
+      walker.expandProperty(getNode('P13N1'));
+      walker.addRoot(3);
+      expect(getNode('N3').data.originId).toBe('');
+      walker.expandNode(getNode('N3'));
+      expect(getIds()).toContain('P16N3');
+
+      gate = new Subject<void>();
+      walker.refreshNode(getNode('N3'));
+      walker.removeRoot(3);
+      expect(walker.isPending('N3')).toBeFalse();
+      release();
+
+      expect(getIds()).not.toContain('P16N3');
+      expect(getNode('N3').data.originId).toBe('P13N1');
+      expect(getNode('N3').data.expanded).toBeFalsy();
+    });
+  });
+
+  describe('history', () => {
+    it('should undo and redo an expansion', () => {
+      let canUndo = false;
+      let canRedo = false;
+      walker.canUndo$.subscribe((b) => (canUndo = b));
+      walker.canRedo$.subscribe((b) => (canRedo = b));
+      expect(canUndo).toBeFalse();
+
+      walker.expandProperty(getNode('P13N1'));
+      expect(canUndo).toBeTrue();
+      expect(walker.undo()?.operation).toBe('expand');
+      expect(getIds()).toEqual(['N1', 'P12N1', 'P13N1', 'P14N1']);
+      expect(getNode('P13N1').data.expanded).toBeFalsy();
+      expect(canUndo).toBeFalse();
+      expect(canRedo).toBeTrue();
+
+      expect(walker.redo()?.operation).toBe('expand');
+      expect(getIds()).toContain('N3');
+      expect(getNode('P13N1').data.expanded).toBeTrue();
+      expect(canRedo).toBeFalse();
+    });
+
+    it('should clear the redo history on a new operation', () => {
+      walker.expandProperty(getNode('P13N1'));
+      walker.undo();
+      walker.expandProperty(getNode('P12N1'));
+      expect(walker.redo()).toBeNull();
+    });
+
+    it('should limit the history', () => {
+      walker.maxHistory = 1;
+      walker.expandProperty(getNode('P12N1'));
+      walker.expandProperty(getNode('P13N1'));
+      expect(walker.undo()?.nodeId).toBe('P13N1');
+      expect(walker.undo()).toBeNull();
+    });
+  });
+
+  describe('state', () => {
+    it('should restore a state in another walker', () => {
+      walker.expandProperty(getNode('P13N1'));
+      walker.selectNode('N3');
+      walker.setNodePosition('N3', { x: 10, y: 20 });
+      const state = walker.getState();
+
+      const other = new GraphWalker({} as GraphService);
+      let otherNodes: GraphNode[] = [];
+      let otherEdges: Edge[] = [];
+      other.nodes$.subscribe((n) => (otherNodes = n));
+      other.edges$.subscribe((e) => (otherEdges = e));
+      other.setState(JSON.parse(JSON.stringify(state)));
+
+      expect(otherNodes.map((n) => n.id).sort()).toEqual(getIds());
+      expect(otherEdges.map((e) => e.id).sort()).toEqual(
+        edges.map((e) => e.id).sort()
+      );
+      expect(other.getSelectedNode()?.id).toBe('N3');
+      expect(other.getNodePosition('N3')).toEqual({ x: 10, y: 20 });
+      expect(other.getState()).toEqual(state);
+    });
+
+    it('should not be affected by later changes', () => {
+      const state = walker.getState();
+      walker.expandProperty(getNode('P13N1'));
+      expect(state.nodes.map((n) => n.id)).not.toContain('N3');
+    });
+
+    it('should reject an invalid state', () => {
+      const state = walker.getState();
+      expect(() => walker.setState({ ...state, version: -1 })).toThrowError();
+    });
+
+    it('should drop the errors of nodes not restored', () => {
+      spyOn(console, 'error');
+      const state = walker.getState();
+      let errors: WalkerError[] = [];
+      walker.errors$.subscribe((e) => (errors = e));
+      walker.addRoot(99);
+      expect(errors.map((e) => e.nodeId)).toEqual(['N99']);
+      expect(walker.retryNode('N99')).toBeTrue();
+      walker.setState(state);
+      expect(errors).toEqual([]);
+      expect(walker.retryNode('N99')).toBeFalse();
+    });
+  });
+
+  describe('expandToDepth', () => {
+    let progress: WalkerExpandProgress | null;
+
+    beforeEach(() => {
+      walker.expandProgress$.subscribe((p) => (progress = p));
+    });
+
+    it('should expand to the specified depth', () => {
+      walker.expandToDepth('N1', 2);
+      expect(getIds()).toEqual([
+        'L5',
+        'N1',
+        'N2',
+        'N3',
+        'P12N1',
+        'P13N1',
+        'P14N1',
+      ]);
+      expect(progress?.done).toBeTrue();
+      expect(progress?.limit).toBeUndefined();
+      expect(progress?.requests).toBe(9);
+      walker.expandToDepth('N1', 3);
+      expect(getIds()).toContain('P16N3');
+    });
+
+    it('should be undone as a single operation', () => {
+      walker.expandToDepth('N1', 3);
+      walker.undo();
+      expect(getIds()).toEqual(['N1', 'P12N1', 'P13N1', 'P14N1']);
+    });
+
+    it('should stop at the max requests', () => {
+      walker.expandToDepth('N1', 3, { maxRequests: 5 });
+      expect(progress?.limit).toBe('requests');
+      expect(progress?.requests).toBe(3);
+      expect(getIds()).toContain('L5');
+      expect(getIds()).not.toContain('N3');
+    });
+
+    it('should stop at the max nodes', () => {
+      walker.expandToDepth('N1', 3, { maxNodes: 1 });
+      expect(progress?.limit).toBe('nodes');
+      expect(progress?.nodes).toBe(1);
+    });
+
+    it('should follow only the allowed predicates', () => {
+      walker.expandToDepth('N1', 3, { allowPredicates: ['x:livedIn'] });
+      expect(getIds()).toContain('N3');
+      expect(getIds()).not.toContain('N2');
+      expect(getIds()).not.toContain('L5');
+    });
+
+    it('should be cancelled with its node', () => {
+      gate = new Subject<void>();
+      walker.expandToDepth('N1', 3);
+      walker.cancel('N1');
+      expect(progress?.cancelled).toBeTrue();
+      release();
+      expect(getIds()).toEqual(['N1', 'P12N1', 'P13N1', 'P14N1']);
+    });
+  });
+
+  describe('events', () => {
+    let events: GraphWalkerEvent[];
+
+    beforeEach(() => {
+      events = [];
+      walker.events$.subscribe((e) => events.push(e));
+    });
+
+    it('should emit completed operations with their filters', () => {
+      walker.expandProperty(getNode('P13N1'));
+      expect(events.map((e) => e.type)).toEqual(['expand']);
+      expect(events[0].nodeId).toBe('P13N1');
+      expect(events[0].node?.id).toBe('P13N1');
+      expect(Object.keys(events[0].filters!)).toEqual([
+        'outFilter',
+        'inFilter',
+        'litFilter',
+      ]);
+    });
+
+    it('should emit filter, collapse, undo and reset events', () => {
+      walker.expandNode(getNode('N1'), { pageSize: 2 });
+      walker.toggleNode(getNode('N1'));
+      walker.undo();
+      walker.reset(2);
+      expect(events.map((e) => e.type)).toEqual([
+        'filter',
+        'collapse',
+        'undo',
+        'reset',
+      ]);
+      expect(events[2].operation).toBe('collapse');
+    });
+
+    it('should not emit events for cancelled operations', () => {
+      gate = new Subject<void>();
+      walker.expandProperty(getNode('P13N1'));
+      walker.cancel('P13N1');
+      release();
+      expect(events).toEqual([]);
+    });
+
+    it('should emit errors', () => {
+      spyOn(console, 'error');
+      walker.addRoot(99);
+      expect(events.map((e) => e.type)).toEqual(['error']);
+      expect(events[0].error?.status).toBe(404);
+      expect(events[0].error?.operation).toBe('root');
+    });
+  });
+});
@@ -1,7 +1,17 @@
-import { BehaviorSubject, forkJoin, Observable } from 'rxjs';
-import { take } from 'rxjs/operators';
-
-import { Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+import {
+  BehaviorSubject,
+  combineLatest,
+  defer,
+  forkJoin,
+  MonoTypeOperatorFunction,
+  Observable,
+  Observer,
+  Subject,
+  Subscription,
+} from 'rxjs';
+import { finalize, map, take } from 'rxjs/operators';
+
+import { ClusterNode, Edge, Node as GraphNode } from '@swimlane/ngx-graph';
 
 import {
   GraphService,
@@ -14,6 +24,39 @@ import {
   UriTriple,
 } from '@myrmidon/cadmus-api';
 
+import { GraphPath } from './graph-path-finder';
+import {
+  WalkerGraphCache,
+  WalkerGraphCacheOptions,
+} from './walker-graph-cache';
+import {
+  WalkerClusterMode,
+  WalkerClusterStrategy,
+  WALKER_CLUSTER_STRATEGIES,
+} from './graph-walker-clusters';
+import {
+  formatWalkerLiteral,
+  WalkerLiteralFormatters,
+  WALKER_DEFAULT_LITERAL_FORMATTERS,
+} from './walker-literal-formatters';
+import { WalkerNodePosition, WalkerPositionStore } from './walker-layout';
+import { findWalkerNeighbor, WalkerDirection } from './walker-navigation';
+import {
+  buildWalkerError,
+  retryWalkerRequest,
+  WalkerError,
+  WalkerErrorOperation,
+  WalkerRetryOptions,
+  WALKER_DEFAULT_RETRY_OPTIONS,
+} from './walker-errors';
+import {
+  buildWalkerExpanderId,
+  isValidWalkerExpanderPrefix,
+  isWalkerExpanderId,
+  WalkerExpander,
+  WalkerExpansion,
+} from './walker-expanders';
+
 export interface PagedTripleFilter extends TripleFilter {
   pageNumber: number;
   pageSize: number;
@@ -38,8 +81,10 @@ export interface PagedLinkedNodeFilter extends LinkedNodeFilter {
 export interface WalkerData {
   originId: string;
   // https://github.com/swimlane/ngx-graph/issues/312
+  // a color overriding the one from styling rules, as for roots
   customColor?: string;
   hidden?: boolean;
+  highlighted?: boolean;
 }
 
 /**
@@ -47,8 +92,23 @@ export interface WalkerData {
  */
 export interface WalkerWidgetData extends WalkerData {
   selected?: boolean;
+  /**
+   * True if the node must never be removed when collapsing.
+   */
+  pinned?: boolean;
   expanded?: boolean;
-  error?: string;
+  /**
+   * True while the node's children are being loaded.
+   */
+  busy?: boolean;
+  /**
+   * The error occurred when last loading the node's children, if any.
+   */
+  error?: WalkerError;
+  /**
+   * The expansions of the node by custom expanders, keyed by their prefix.
+   */
+  expansions?: { [key: string]: WalkerExpansion };
 }
 
 /**
@@ -92,6 +152,18 @@ export interface WalkerLitData extends WalkerWidgetData {
   number?: number;
 }
 
+/**
+ * Graph walker expander node data, i.e. a node built by a custom expander.
+ * This also includes the data provided by the expander for the node.
+ * ID: expander prefix + node key (e.g. "I" + item ID). These nodes are
+ * expanded only by expanders, so they are expanded when they have any
+ * expansion.
+ */
+export interface WalkerExpanderNodeData extends WalkerWidgetData {
+  key: string;
+  [key: string]: unknown;
+}
+
 /**
  * The total counts of items fetched by each children graph nodes filter.
  */
@@ -102,20 +174,190 @@ export interface NodeChildTotals {
   nOut: number;
   nIn: number;
 }
+
+/**
+ * The colors assigned to root nodes, cycled when there are more roots
+ * than colors.
+ */
+export const WALKER_ROOT_COLORS = [
+  '#F89427',
+  '#42A5F5',
+  '#AB47BC',
+  '#26A69A',
+  '#EF5350',
+  '#FFCA28',
+];
+
+/**
+ * The version of the graph walker state document.
+ */
+export const GRAPH_WALKER_STATE_VERSION = 1;
+
+/**
+ * A serializable snapshot of the graph walker state. This is used to save
+ * a walking session and restore it later, without walking it again.
+ */
+export interface GraphWalkerState {
+  version: number;
+  /**
+   * The ID of the first root node. Roots are the nodes with an empty
+   * origin ID, so this is just informational.
+   */
+  rootId?: string;
+  selectedId?: string;
+  nodes: GraphNode[];
+  edges: Edge[];
+  /**
+   * The positions set by users for nodes, keyed by node ID.
+   */
+  positions?: { [key: string]: WalkerNodePosition };
+}
+
+/**
+ * The type of an operation recorded in the graph walker history.
+ */
+export type GraphWalkerOperation =
+  | 'expand'
+  | 'collapse'
+  | 'filter'
+  | 'select'
+  | 'path'
+  | 'add-root'
+  | 'remove-root'
+  | 'pin'
+  | 'refresh';
+
+/**
+ * An entry of the graph walker history. This records the operation and
+ * the state of the walker to be restored when undoing or redoing it.
+ */
+export interface GraphWalkerHistoryEntry {
+  operation: GraphWalkerOperation;
+  nodeId?: string;
+  state: GraphWalkerState;
+}
+
+/**
+ * The type of a graph walker event: either a completed operation, or:
+ * - reset: the graph was reset to new roots.
+ * - undo, redo: an operation was undone or redone.
+ * - error: a request failed.
+ */
+export type GraphWalkerEventType =
+  | GraphWalkerOperation
+  | 'reset'
+  | 'undo'
+  | 'redo'
+  | 'error';
+
+/**
+ * An event of the graph walker, emitted by its events$ stream.
+ */
+export interface GraphWalkerEvent {
+  type: GraphWalkerEventType;
+  /**
+   * The ID of the node the event refers to, if any.
+   */
+  nodeId?: string;
+  /**
+   * The node the event refers to, when present in the graph.
+   */
+  node?: GraphNode;
+  /**
+   * The filters of the node, for expand, filter and refresh events.
+   */
+  filters?: { [key: string]: unknown };
+  /**
+   * The operation undone or redone, for undo and redo events.
+   */
+  operation?: GraphWalkerOperation;
+  /**
+   * The error, for error events.
+   */
+  error?: WalkerError;
+}
+
+/**
+ * Options for expanding the graph to a given depth.
+ */
+export interface WalkerExpandOptions {
+  /**
+   * The maximum number of nodes to add to the graph. The expansion stops
+   * when this is reached.
+   */
+  maxNodes?: number;
+  /**
+   * The maximum number of requests to the graph service. The expansion
+   * stops before exceeding it. Expanding a node costs 2 requests, and
+   * expanding a property group costs 3 requests.
+   */
+  maxRequests?: number;
+  /**
+   * The URIs of the only predicates to follow. When empty, all the
+   * predicates not denied are followed.
+   */
+  allowPredicates?: string[];
+  /**
+   * The URIs of the predicates never to follow.
+   */
+  denyPredicates?: string[];
+}
+
+/**
+ * The progress of an expansion to a given depth.
+ */
+export interface WalkerExpandProgress {
+  /**
+   * The ID of the node the expansion started from.
+   */
+  nodeId: string;
+  /**
+   * The depth level being expanded, starting from 1.
+   */
+  depth: number;
+  /**
+   * The number of nodes added to the graph.
+   */
+  nodes: number;
+  /**
+   * The number of requests sent.
+   */
+  requests: number;
+  /**
+   * True when the expansion has ended.
+   */
+  done: boolean;
+  /**
+   * The limit which stopped the expansion, if any.
+   */
+  limit?: 'nodes' | 'requests';
+  /**
+   * True if the expansion was cancelled.
+   */
+  cancelled?: boolean;
+}
 //#endregion
 
 /**
  * Graph walker.
  * This class encapsulates data used for interactively exploring a graph
- * starting from a designated origin node.
+ * starting from one or more designated origin nodes.
  */
-export class GraphWalker {
+export class GraphWalker implements WalkerPositionStore {
   private readonly _nodes$: BehaviorSubject<GraphNode[]>;
   private readonly _edges$: BehaviorSubject<Edge[]>;
-  // TODO: add clusters
+  private readonly _clusterMode$: BehaviorSubject<WalkerClusterMode>;
+  private readonly _clusters$: Observable<ClusterNode[]>;
   private readonly _loading$: BehaviorSubject<boolean>;
+  private readonly _pending$: BehaviorSubject<number>;
+  // the count of the pending requests for each busy node
+  private readonly _busyCounts: Map<string, number>;
   private readonly _error$: BehaviorSubject<string | null>;
-  private _rootNode?: GraphNode;
+  private readonly _events$: Subject<GraphWalkerEvent>;
+  private readonly _errors$: BehaviorSubject<WalkerError[]>;
+  // the actions retrying the failed requests, keyed by node ID
+  private readonly _retries: Map<string, () => void>;
+  private readonly _roots$: Observable<GraphNode[]>;
 
   private readonly _selectedNode$: BehaviorSubject<GraphNode | null>;
   private readonly _pOutFilter$: BehaviorSubject<PagedLinkedNodeFilter | null>;
@@ -124,6 +366,20 @@ export class GraphWalker {
   private readonly _nOutFilter$: BehaviorSubject<PagedTripleFilter | null>;
   private readonly _nInFilter$: BehaviorSubject<PagedTripleFilter | null>;
   private readonly _childTotals$: BehaviorSubject<NodeChildTotals>;
+  // history
+  private readonly _undoStack: GraphWalkerHistoryEntry[];
+  private readonly _redoStack: GraphWalkerHistoryEntry[];
+  private readonly _canUndo$: BehaviorSubject<boolean>;
+  private readonly _canRedo$: BehaviorSubject<boolean>;
+  private readonly _cache: WalkerGraphCache;
+  // pending requests, keyed by the ID of the node they refer to, followed
+  // by their source for expander requests (see getRequestKey)
+  private readonly _requests: Map<string, Subscription>;
+  private readonly _expandProgress$: BehaviorSubject<WalkerExpandProgress | null>;
+  // positions set by users, keyed by node ID; these are kept also for
+  // removed nodes, so that they get restored when re-added
+  private readonly _positions: Map<string, WalkerNodePosition>;
+  private readonly _expanders: Map<string, WalkerExpander>;
 
   /**
    * The page size. Default is 10.
@@ -135,6 +391,23 @@ export class GraphWalker {
    */
   public maxLiteralLen: number;
 
+  /**
+   * The formatters used to build the labels of literals, keyed by their
+   * datatype. Default is WALKER_DEFAULT_LITERAL_FORMATTERS.
+   */
+  public literalFormatters: WalkerLiteralFormatters;
+
+  /**
+   * The options for retrying the requests failing with a transient error.
+   * Default is WALKER_DEFAULT_RETRY_OPTIONS.
+   */
+  public retryOptions: WalkerRetryOptions;
+
+  /**
+   * Max number of operations kept in the undo history. Default is 50.
+   */
+  public maxHistory: number;
+
   /**
    * The nodes of the walker graph, which can represent nodes, literals,
    * or property groups. You can easily determine the type of each node
@@ -152,6 +425,28 @@ export class GraphWalker {
     return this._edges$.asObservable();
   }
 
+  /**
+   * The root origin nodes.
+   */
+  public get roots$(): Observable<GraphNode[]> {
+    return this._roots$;
+  }
+
+  /**
+   * The clusters grouping the walker's nodes, according to the current
+   * cluster mode.
+   */
+  public get clusters$(): Observable<ClusterNode[]> {
+    return this._clusters$;
+  }
+
+  /**
+   * The clustering mode. Default is none.
+   */
+  public get clusterMode$(): Observable<WalkerClusterMode> {
+    return this._clusterMode$.asObservable();
+  }
+
   /**
    * True if the walker is loading data.
    */
@@ -159,6 +454,14 @@ export class GraphWalker {
     return this._loading$.asObservable();
   }
 
+  /**
+   * The number of pending operations, i.e. of the node loads and
+   * expansions in flight.
+   */
+  public get pending$(): Observable<number> {
+    return this._pending$.asObservable();
+  }
+
   /**
    * The last error occurred in communicating with the server, if any.
    */
@@ -166,6 +469,22 @@ export class GraphWalker {
     return this._error$.asObservable();
   }
 
+  /**
+   * The events of the walker, for completed operations, resets, undo
+   * and redo, and errors.
+   */
+  public get events$(): Observable<GraphWalkerEvent> {
+    return this._events$.asObservable();
+  }
+
+  /**
+   * The errors occurred in loading nodes, at most one per node. Errors
+   * are removed when the node is loaded successfully.
+   */
+  public get errors$(): Observable<WalkerError[]> {
+    return this._errors$.asObservable();
+  }
+
   /**
    * The selected node. Only one node at a time can be selected.
    */
@@ -208,12 +527,61 @@ export class GraphWalker {
   public get childTotals$(): Observable<NodeChildTotals> {
     return this._childTotals$.asObservable();
   }
+  /**
+   * True if there is an operation which can be undone.
+   */
+  public get canUndo$(): Observable<boolean> {
+    return this._canUndo$.asObservable();
+  }
+  /**
+   * True if there is an undone operation which can be redone.
+   */
+  public get canRedo$(): Observable<boolean> {
+    return this._canRedo$.asObservable();
+  }
+
+  /**
+   * The progress of the last expansion to a given depth, if any.
+   */
+  public get expandProgress$(): Observable<WalkerExpandProgress | null> {
+    return this._expandProgress$.asObservable();
+  }
+
+  /**
+   * The cache of the graph service responses.
+   */
+  public get cache(): WalkerGraphCache {
+    return this._cache;
+  }
 
-  constructor(private _graphService: GraphService) {
+  constructor(
+    graphService: GraphService,
+    cacheOptions?: WalkerGraphCacheOptions
+  ) {
+    this._cache = new WalkerGraphCache(graphService, cacheOptions);
     this._nodes$ = new BehaviorSubject<GraphNode[]>([]);
     this._edges$ = new BehaviorSubject<Edge[]>([]);
+    this._roots$ = this._nodes$.pipe(
+      map((nodes) => nodes.filter((n) => this.isRoot(n)))
+    );
+    this._clusterMode$ = new BehaviorSubject<WalkerClusterMode>('none');
+    this._clusters$ = combineLatest([
+      this._nodes$,
+      this._edges$,
+      this._clusterMode$,
+    ]).pipe(
+      map(([nodes, edges, mode]) => {
+        const strategy = this.getClusterStrategy(mode);
+        return strategy ? strategy(nodes, edges) : [];
+      })
+    );
     this._loading$ = new BehaviorSubject<boolean>(false);
+    this._pending$ = new BehaviorSubject<number>(0);
+    this._busyCounts = new Map<string, number>();
     this._error$ = new BehaviorSubject<string | null>(null);
+    this._errors$ = new BehaviorSubject<WalkerError[]>([]);
+    this._events$ = new Subject<GraphWalkerEvent>();
+    this._retries = new Map<string, () => void>();
     this._selectedNode$ = new BehaviorSubject<GraphNode | null>(null);
     this._pOutFilter$ = new BehaviorSubject<PagedLinkedNodeFilter | null>(null);
     this._pInFilter$ = new BehaviorSubject<PagedLinkedNodeFilter | null>(null);
@@ -229,36 +597,360 @@ export class GraphWalker {
       pIn: 0,
       pLit: 0,
     });
+    this._undoStack = [];
+    this._redoStack = [];
+    this._canUndo$ = new BehaviorSubject<boolean>(false);
+    this._canRedo$ = new BehaviorSubject<boolean>(false);
+    this._requests = new Map<string, Subscription>();
+    this._expandProgress$ = new BehaviorSubject<WalkerExpandProgress | null>(
+      null
+    );
+    this._positions = new Map<string, WalkerNodePosition>();
+    this._expanders = new Map<string, WalkerExpander>();
     // defaults
     this.pageSize = 10;
     this.maxLiteralLen = 30;
+    this.literalFormatters = WALKER_DEFAULT_LITERAL_FORMATTERS;
+    this.retryOptions = WALKER_DEFAULT_RETRY_OPTIONS;
+    this.maxHistory = 50;
+  }
+
+  /**
+   * Get the cluster strategy for the specified mode. Override this to
+   * provide custom strategies.
+   *
+   * @param mode The cluster mode.
+   * @returns The strategy or null for no clusters.
+   */
+  protected getClusterStrategy(
+    mode: WalkerClusterMode
+  ): WalkerClusterStrategy | null {
+    return mode === 'none' ? null : WALKER_CLUSTER_STRATEGIES[mode] || null;
+  }
+
+  /**
+   * Set the clustering mode.
+   *
+   * @param mode The mode.
+   */
+  public setClusterMode(mode: WalkerClusterMode): void {
+    this._clusterMode$.next(mode);
   }
 
   public getSelectedNode(): GraphNode | null {
     return this._selectedNode$.value;
   }
 
-  private toggleLoading(on: boolean): void {
-    if (on) {
-      this._error$.next(null);
-      this._loading$.next(true);
+  private updateLoading(): void {
+    if (this._pending$.value !== this._requests.size) {
+      this._pending$.next(this._requests.size);
+    }
+    const loading = this._requests.size > 0;
+    if (this._loading$.value !== loading) {
+      this._loading$.next(loading);
+    }
+  }
+
+  /**
+   * Mark the specified node as busy or not busy. Nodes are busy until all
+   * the requests for them have ended.
+   *
+   * @param node The node.
+   * @param busy True when a request starts, false when it ends.
+   */
+  private setBusy(node: GraphNode, busy: boolean): void {
+    const count = (this._busyCounts.get(node.id) || 0) + (busy ? 1 : -1);
+    if (count > 0) {
+      this._busyCounts.set(node.id, count);
     } else {
-      this._loading$.next(false);
+      this._busyCounts.delete(node.id);
     }
+    node.data.busy = count > 0 || undefined;
   }
 
-  private setError(error: any): void {
-    if (error) {
-      if (typeof error === 'string') {
-        this._error$.next(error);
-        console.error(error);
-      } else {
-        this._error$.next('Walker error');
-        console.error(JSON.stringify(error));
-      }
+  /**
+   * An operator making the specified node busy while the request it is
+   * applied to is pending.
+   *
+   * @param node The node.
+   * @returns The operator.
+   */
+  private whileBusy<T>(node: GraphNode): MonoTypeOperatorFunction<T> {
+    return (request$) =>
+      defer(() => {
+        this.setBusy(node, true);
+        return request$.pipe(finalize(() => this.setBusy(node, false)));
+      });
+  }
+
+  /**
+   * Get the key of a request for the specified node and source. The
+   * requests loading the graph children of a node are keyed by its ID;
+   * those of expanders by the node ID followed by a colon and the expander
+   * prefix, so that they do not affect each other.
+   *
+   * @param nodeId The ID of the node the request refers to.
+   * @param source The source of the request, i.e. the expander prefix, or
+   * undefined for graph requests.
+   * @returns The key.
+   */
+  private getRequestKey(nodeId: string, source?: string): string {
+    return source ? `${nodeId}:${source}` : nodeId;
+  }
+
+  /**
+   * Subscribe to the specified request, tracking it until it ends. Any
+   * pending request with the same key is cancelled.
+   *
+   * @param key The request key, as built by getRequestKey.
+   * @param request$ The request.
+   * @param observer The request observer.
+   * @returns The subscription to the request, or undefined if the request
+   * ended synchronously.
+   */
+  private track<T>(
+    key: string,
+    request$: Observable<T>,
+    observer: Partial<Observer<T>>
+  ): Subscription | undefined {
+    this.cancelRequest(key);
+
+    let sub: Subscription | undefined;
+    sub = request$
+      .pipe(
+        finalize(() => {
+          if (sub && this._requests.get(key) === sub) {
+            this._requests.delete(key);
+            this.updateLoading();
+          }
+        })
+      )
+      .subscribe(observer);
+    // a synchronous request has already ended here
+    if (sub.closed) {
+      return undefined;
+    }
+    this._requests.set(key, sub);
+    this.updateLoading();
+    return sub;
+  }
+
+  private cancelRequest(key: string): boolean {
+    const sub = this._requests.get(key);
+    if (!sub) {
+      return false;
+    }
+    this._requests.delete(key);
+    sub.unsubscribe();
+    this.updateLoading();
+    return true;
+  }
+
+  /**
+   * Cancel the pending request for the specified node and source, if any.
+   *
+   * @param nodeId The node ID.
+   * @param source The expander prefix, or undefined to cancel the request
+   * loading the graph children of the node.
+   * @returns True if a request was cancelled.
+   */
+  public cancel(nodeId: string, source?: string): boolean {
+    return this.cancelRequest(this.getRequestKey(nodeId, source));
+  }
+
+  /**
+   * Cancel all the pending requests for the specified node, whatever
+   * their source.
+   *
+   * @param nodeId The node ID.
+   * @returns True if any request was cancelled.
+   */
+  public cancelNode(nodeId: string): boolean {
+    const keys = Array.from(this._requests.keys()).filter(
+      (k) => k === nodeId || k.startsWith(nodeId + ':')
+    );
+    keys.forEach((k) => this.cancelRequest(k));
+    return keys.length > 0;
+  }
+
+  /**
+   * Cancel all the pending requests.
+   */
+  public cancelAll(): void {
+    const subs = Array.from(this._requests.values());
+    this._requests.clear();
+    subs.forEach((s) => s.unsubscribe());
+    this.updateLoading();
+  }
+
+  /**
+   * Check whether there is a pending request for the specified node and
+   * source.
+   *
+   * @param nodeId The node ID.
+   * @param source The expander prefix, or undefined for the request
+   * loading the graph children of the node.
+   * @returns True if pending.
+   */
+  public isPending(nodeId: string, source?: string): boolean {
+    return this._requests.has(this.getRequestKey(nodeId, source));
+  }
+
+  /**
+   * Dispose this walker, cancelling all the pending requests and
+   * completing all its streams. The walker must not be used after
+   * disposing it.
+   */
+  public dispose(): void {
+    this.cancelAll();
+    this._nodes$.complete();
+    this._edges$.complete();
+    this._clusterMode$.complete();
+    this._loading$.complete();
+    this._pending$.complete();
+    this._error$.complete();
+    this._errors$.complete();
+    this._events$.complete();
+    this._selectedNode$.complete();
+    this._pOutFilter$.complete();
+    this._pInFilter$.complete();
+    this._pLitFilter$.complete();
+    this._nOutFilter$.complete();
+    this._nInFilter$.complete();
+    this._childTotals$.complete();
+    this._canUndo$.complete();
+    this._canRedo$.complete();
+    this._expandProgress$.complete();
+    this._undoStack.length = 0;
+    this._redoStack.length = 0;
+  }
+
+  /**
+   * Get the filters of the specified node, including those of its
+   * expansions, keyed by the expander prefix.
+   */
+  private getNodeFilters(
+    nodeId: string
+  ): { [key: string]: unknown } | undefined {
+    const node = this._nodes$.value.find((n) => n.id === nodeId);
+    if (!node) {
+      return undefined;
+    }
+    let filters: { [key: string]: unknown } | undefined;
+    switch (node.id.charAt(0)) {
+      case 'N':
+        filters = {
+          outFilter: node.data.outFilter,
+          inFilter: node.data.inFilter,
+        };
+        break;
+      case 'P':
+        filters = {
+          outFilter: node.data.outFilter,
+          inFilter: node.data.inFilter,
+          litFilter: node.data.litFilter,
+        };
+        break;
+    }
+    return node.data.expansions
+      ? { ...filters, ...this.getExpansionFilters(node.data.expansions) }
+      : filters;
+  }
+
+  /**
+   * Record an error, replacing any previous error for the same node, and
+   * mark the node as failed.
+   *
+   * @param error The error.
+   * @param operation The failed operation.
+   * @param nodeId The ID of the node the failed request refers to.
+   * @param retry The action retrying the failed request, if any.
+   * @returns The recorded error.
+   */
+  private addError(
+    error: unknown,
+    operation: WalkerErrorOperation,
+    nodeId: string,
+    retry?: () => void
+  ): WalkerError {
+    const e = buildWalkerError(
+      error,
+      operation,
+      nodeId,
+      this.getNodeFilters(nodeId),
+      this.retryOptions
+    );
+    e.retryable = !!retry;
+    console.error(e.message, error);
+
+    const node = this._nodes$.value.find((n) => n.id === nodeId);
+    if (node) {
+      node.data.error = e;
+      this._nodes$.next([...this._nodes$.value]);
+    }
+    this._errors$.next([
+      ...this._errors$.value.filter((x) => x.nodeId !== nodeId),
+      e,
+    ]);
+    if (retry) {
+      this._retries.set(nodeId, retry);
     } else {
-      this._error$.next('Walker error');
+      this._retries.delete(nodeId);
+    }
+    this._error$.next(e.message);
+    this.emitEvent('error', nodeId, { error: e });
+    return e;
+  }
+
+  /**
+   * Remove the error for the specified node, if any.
+   *
+   * @param nodeId The node ID.
+   */
+  public dismissError(nodeId: string): void {
+    this._retries.delete(nodeId);
+    if (this._errors$.value.some((e) => e.nodeId === nodeId)) {
+      const errors = this._errors$.value.filter((e) => e.nodeId !== nodeId);
+      this._errors$.next(errors);
+      this._error$.next(
+        errors.length ? errors[errors.length - 1].message : null
+      );
+    }
+    const node = this._nodes$.value.find((n) => n.id === nodeId);
+    if (node?.data.error) {
+      node.data.error = undefined;
+      this._nodes$.next([...this._nodes$.value]);
+    }
+  }
+
+  /**
+   * Remove all the errors.
+   */
+  public clearErrors(): void {
+    this._retries.clear();
+    this._errors$.next([]);
+    this._error$.next(null);
+    const nodes = this._nodes$.value;
+    if (nodes.some((n) => n.data?.error)) {
+      nodes.forEach((n) => (n.data.error = undefined));
+      this._nodes$.next([...nodes]);
+    }
+  }
+
+  /**
+   * Retry the failed request for the specified node.
+   *
+   * @param nodeId The node ID.
+   * @returns True if retried, false if there is nothing to retry.
+   */
+  public retryNode(nodeId: string): boolean {
+    const retry = this._retries.get(nodeId);
+    this.dismissError(nodeId);
+    if (!retry) {
+      return false;
     }
+    retry();
+    return true;
   }
 
   private buildNodeId(id: number): string {
@@ -341,29 +1033,136 @@ export class GraphWalker {
 
   /**
    * Select the specified node. This also implies updating all the current
-   * filters, which depend on the selected node.
+   * filters, which depend on the selected node. The selection is recorded
+   * in the history.
    *
    * @param id The node ID or null to deselect the selected node.
    */
   public selectNode(id: string | null): void {
-    const node = id ? this._nodes$.value.find((n) => n.id === id) : null;
-    if (!node) {
-      this._selectedNode$.next(null);
-      this.resetFilters();
+    if ((this._selectedNode$.value?.id || null) === (id || null)) {
       return;
     }
-    // deselect
-    const old = this._nodes$.value.find((n) => n.data?.selected);
-    if (old) {
-      old.data.selected = undefined;
-    }
-    // select
-    node.data.selected = true;
-    this._selectedNode$.next(node);
+    const state = this.getState();
+    this.setSelection(id);
+    this.pushHistory('select', id || undefined, state);
+  }
 
-    switch (node.id.charAt(0)) {
-      case 'N': // non-literal node
-        const nd = node.data as WalkerNodeData;
+  /**
+   * Get the nodes linked to the specified node by any edge, in the order
+   * of their edges.
+   *
+   * @param id The node ID.
+   * @returns The neighbor nodes.
+   */
+  public getNeighbors(id: string): GraphNode[] {
+    const ids = new Set<string>();
+    this._edges$.value.forEach((e) => {
+      if (e.source === id) {
+        ids.add(e.target);
+      } else if (e.target === id) {
+        ids.add(e.source);
+      }
+    });
+    const nodes = new Map(this._nodes$.value.map((n) => [n.id, n]));
+    return Array.from(ids)
+      .filter((i) => nodes.has(i))
+      .map((i) => nodes.get(i)!);
+  }
+
+  /**
+   * Select the neighbor of the selected node lying in the specified
+   * direction in the graph layout, i.e. the nearest one, preferring those
+   * less offset from the direction. When there is no selection, the first
+   * root is selected. When the layout has not yet positioned nodes, the
+   * first neighbor in edge order is selected for right and down, and the
+   * last one for left and up.
+   *
+   * @param direction The direction.
+   * @param positions The positions of the nodes in the graph layout, keyed
+   * by node ID. ngx-graph layouts set them on copies of the walker nodes,
+   * so they must be got from the laid out graph.
+   * @returns The selected node, or null if nothing was selected.
+   */
+  public selectNeighbor(
+    direction: WalkerDirection,
+    positions?: Map<string, WalkerNodePosition>
+  ): GraphNode | null {
+    const node = this._selectedNode$.value;
+    if (!node) {
+      const root = this.getRootNode() || null;
+      if (root) {
+        this.selectNode(root.id);
+      }
+      return root;
+    }
+    const neighbors = this.getNeighbors(node.id);
+    if (!neighbors.length) {
+      return null;
+    }
+
+    let target: GraphNode | undefined;
+    const origin = positions?.get(node.id);
+    const placed = origin
+      ? neighbors
+          .filter((n) => positions!.has(n.id))
+          .map((n) => ({ id: n.id, position: positions!.get(n.id)! }))
+      : [];
+    // before the first layout all the nodes share the same position
+    if (
+      origin &&
+      placed.length === neighbors.length &&
+      placed.some((n) => n.position.x !== origin.x || n.position.y !== origin.y)
+    ) {
+      const id = findWalkerNeighbor(origin, placed, direction);
+      target = neighbors.find((n) => n.id === id);
+    } else {
+      target =
+        direction === 'right' || direction === 'down'
+          ? neighbors[0]
+          : neighbors[neighbors.length - 1];
+    }
+    if (target) {
+      this.selectNode(target.id);
+    }
+    return target || null;
+  }
+
+  /**
+   * Select the origin of the selected node, i.e. the node whose expansion
+   * added it. Nothing is done for roots, which have no origin.
+   *
+   * @returns The selected origin node, or null if nothing was selected.
+   */
+  public selectOrigin(): GraphNode | null {
+    const originId = this._selectedNode$.value?.data?.originId;
+    const origin = originId
+      ? this._nodes$.value.find((n) => n.id === originId)
+      : undefined;
+    if (origin) {
+      this.selectNode(origin.id);
+    }
+    return origin || null;
+  }
+
+  private setSelection(id: string | null): void {
+    const node = id ? this._nodes$.value.find((n) => n.id === id) : null;
+    if (!node) {
+      this._selectedNode$.next(null);
+      this.resetFilters();
+      return;
+    }
+    // deselect
+    const old = this._nodes$.value.find((n) => n.data?.selected);
+    if (old) {
+      old.data.selected = undefined;
+    }
+    // select
+    node.data.selected = true;
+    this._selectedNode$.next(node);
+
+    switch (node.id.charAt(0)) {
+      case 'N': // non-literal node
+        const nd = node.data as WalkerNodeData;
         this._nOutFilter$.next(nd.outFilter);
         this._nInFilter$.next(nd.inFilter);
         this._pOutFilter$.next(null);
@@ -392,59 +1191,193 @@ export class GraphWalker {
           pLit: pd.litTotal || 0,
         });
         break;
-      case 'L': // literal node
+      default: // literal or expander node
         this.resetFilters();
         break;
     }
   }
 
+  private hasNode(id: string): boolean {
+    return this._nodes$.value.some((n) => n.id === id);
+  }
+
+  private isRoot(node: GraphNode): boolean {
+    return node.id.startsWith('N') && node.data?.originId === '';
+  }
+
+  private getRootColor(nodes: GraphNode[]): string {
+    const used = new Set<string>(
+      nodes.filter((n) => this.isRoot(n)).map((n) => n.data.customColor)
+    );
+    return (
+      WALKER_ROOT_COLORS.find((c) => !used.has(c)) ||
+      WALKER_ROOT_COLORS[used.size % WALKER_ROOT_COLORS.length]
+    );
+  }
+
+  private buildRootNode(node: UriNode, color: string): GraphNode {
+    const data: WalkerNodeData = {
+      uri: node.uri,
+      sourceType: node.sourceType,
+      isClass: node.isClass,
+      originId: '', // root origin
+      customColor: color,
+      outFilter: {
+        pageNumber: 1,
+        pageSize: this.pageSize,
+      },
+      inFilter: {
+        pageNumber: 1,
+        pageSize: this.pageSize,
+      },
+      sid: node.sid,
+      tag: node.tag,
+    };
+    return {
+      id: this.buildNodeId(node.id),
+      label: node.label || node.uri,
+      data: data,
+    };
+  }
+
   /**
-   * Reset the graph setting its origin to the specified node.
+   * Load the specified node and add it to the graph as a root. If the node
+   * is already present in the graph, it just becomes a root, keeping its
+   * descendants, which are thus shared with the other roots.
    *
-   * @param id The ID of the origin node to start from ("root origin").
+   * @param id The ID of the node.
+   * @param state The state to record in history, if any.
    */
-  public reset(id: number): void {
-    this.toggleLoading(true);
-    this._graphService
+  private insertRoot(id: number, state?: GraphWalkerState): void {
+    const node$ = this._cache
       .getNode(id)
-      .pipe(take(1))
-      .subscribe({
-        next: (node) => {
-          const nodes: GraphNode[] = [];
-          const data: WalkerNodeData = {
-            uri: node.uri,
-            sourceType: node.sourceType,
-            originId: '', // root origin
-            customColor: '#F89427',
-            outFilter: {
-              pageNumber: 1,
-              pageSize: this.pageSize,
-            },
-            inFilter: {
-              pageNumber: 1,
-              pageSize: this.pageSize,
-            },
-            sid: node.sid,
-          };
-          const n: GraphNode = {
-            id: this.buildNodeId(node.id),
-            label: node.label || node.uri,
-            data: data,
-          };
+      .pipe(retryWalkerRequest(this.retryOptions), take(1));
+    this.track(this.buildNodeId(id), node$, {
+      next: (node) => {
+        const nodes = [...this._nodes$.value];
+        const color = this.getRootColor(nodes);
+        const old = nodes.find((n) => n.id === this.buildNodeId(node.id));
+        if (old) {
+          old.data.originId = '';
+          old.data.customColor = color;
+          this._nodes$.next(nodes);
+        } else {
+          const n = this.buildRootNode(node, color);
           nodes.push(n);
-          this._rootNode = n;
-
-          this._edges$.next([]);
           this._nodes$.next(nodes);
-          this.expandNode(n);
-        },
-        error: (error) => {
-          this.setError(error);
-        },
-        complete: () => {
-          this.toggleLoading(false);
-        },
-      });
+          this.loadNode(n);
+        }
+        if (state) {
+          this.pushHistory('add-root', this.buildNodeId(id), state);
+        }
+      },
+      error: (error) => {
+        this.addError(error, 'root', this.buildNodeId(id), () =>
+          this.insertRoot(id, state)
+        );
+      },
+    });
+  }
+
+  /**
+   * Reset the graph setting its origin to the specified node(s).
+   *
+   * @param id The ID of the origin node to start from ("root origin"),
+   * or an array of IDs for multiple roots.
+   */
+  public reset(id: number | number[]): void {
+    this.cancelAll();
+    this.clearHistory();
+    this._positions.clear();
+    this.clearErrors();
+    this._selectedNode$.next(null);
+    this.resetFilters();
+    this._edges$.next([]);
+    this._nodes$.next([]);
+    const ids = Array.isArray(id) ? id : [id];
+    ids.forEach((i) => this.insertRoot(i));
+    this.emitEvent('reset');
+  }
+
+  /**
+   * Add the specified node as a new root origin. Descendants shared with
+   * other roots are merged.
+   *
+   * @param id The ID of the node.
+   */
+  public addRoot(id: number): void {
+    const node = this._nodes$.value.find((n) => n.id === this.buildNodeId(id));
+    if (node && this.isRoot(node)) {
+      return;
+    }
+    this.insertRoot(id, this.getState());
+  }
+
+  /**
+   * Remove the specified root origin with its descendants. If the root
+   * is also linked to a property group derived from another root, it is
+   * kept as a descendant of that group.
+   *
+   * @param id The ID of the root node.
+   */
+  public removeRoot(id: number): void {
+    const nodeId = this.buildNodeId(id);
+    const root = this._nodes$.value.find((n) => n.id === nodeId);
+    if (!root || !this.isRoot(root)) {
+      return;
+    }
+    // a late response would add the removed children again
+    this.cancelNode(nodeId);
+    const state = this.getState();
+    const nodes = [...this._nodes$.value];
+    const edges = [...this._edges$.value];
+    this.removeChildren(nodeId, nodes, edges);
+
+    // the edges surviving the removal of children come from other roots
+    const linkedId = edges
+      .filter((e) => e.source === nodeId || e.target === nodeId)
+      .map((e) => (e.source === nodeId ? e.target : e.source))
+      .find((i) => i.startsWith('P'));
+
+    if (linkedId) {
+      root.data.originId = linkedId;
+      root.data.customColor = undefined;
+      // its children were removed, so it gets collapsed
+      root.data.expanded = undefined;
+      root.data.expansions = undefined;
+    } else {
+      nodes.splice(nodes.indexOf(root), 1);
+      for (let i = edges.length - 1; i > -1; i--) {
+        if (edges[i].source === nodeId || edges[i].target === nodeId) {
+          edges.splice(i, 1);
+        }
+      }
+      if (this._selectedNode$.value?.id === nodeId) {
+        this.setSelection(null);
+      }
+    }
+    this._nodes$.next(nodes);
+    this._edges$.next(edges);
+    this.pushHistory('remove-root', nodeId, state);
+  }
+
+  /**
+   * Set the root origins, adding the missing ones and removing those not
+   * included in the specified IDs.
+   *
+   * @param ids The IDs of the root nodes.
+   */
+  public setRoots(ids: number[]): void {
+    const roots = this.getRootNodes();
+    if (!roots.length) {
+      this.reset(ids);
+      return;
+    }
+    roots
+      .map((n) => this.getNodeNumericId(n.id))
+      .filter((i) => !ids.includes(i))
+      .forEach((i) => this.removeRoot(i));
+    ids.forEach((i) => this.addRoot(i));
   }
 
   /**
@@ -459,70 +1392,152 @@ export class GraphWalker {
   }
 
   /**
-   * Remove all the nodes with the specified origin node ID.
+   * Collect the IDs of all the nodes descending from the specified origin
+   * node ID.
    *
    * @param originId The ID of the origin graph node.
-   * @param nodes The nodes array to remove nodes from.
-   * @param removedIds The IDs of all the removed nodes.
+   * @param nodes The nodes.
+   * @param ids The set to add the descendant IDs to.
    */
-  private removeDescendantNodes(
+  private collectDescendantIds(
     originId: string,
     nodes: GraphNode[],
-    removedIds: Set<string>
-  ) {
-    const ids = new Set<string>();
-    for (let i = nodes.length - 1; i > -1; i--) {
-      if (nodes[i].data.originId === originId) {
-        ids.add(nodes[i].id);
-        nodes.splice(i, 1);
+    ids: Set<string>
+  ): void {
+    for (const node of nodes) {
+      if (node.data.originId === originId && !ids.has(node.id)) {
+        ids.add(node.id);
+        // recurse for each descendant
+        // (edges never derive from other edges directly)
+        this.collectDescendantIds(node.id, nodes, ids);
       }
     }
+  }
 
-    // recurse for each removed node
-    // (edges never derive from other edges directly)
-    ids.forEach((id) => {
-      this.removeDescendantNodes(id, nodes, removedIds);
-    });
+  /**
+   * Walk the graph from the roots and the pinned nodes, following edges
+   * in both directions. Edges added when expanding a pending node (i.e.
+   * a node which might be removed) can be followed only once that node
+   * has been reached.
+   *
+   * @param nodes The nodes.
+   * @param edges The edges.
+   * @param pendingIds The IDs of the pending nodes.
+   * @returns Map with the IDs of the reached nodes, each with the ID of
+   * the node it was reached from (empty for the starting nodes).
+   */
+  private getReachableIds(
+    nodes: GraphNode[],
+    edges: Edge[],
+    pendingIds: Set<string>
+  ): Map<string, string> {
+    const reached = new Map<string, string>();
+    for (const node of nodes) {
+      if (this.isRoot(node) || node.data.pinned) {
+        reached.set(node.id, '');
+      }
+    }
 
-    // update the received IDs set
-    ids.forEach((id) => {
-      removedIds.add(id);
-    });
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const e of edges) {
+        const ownerId = e.data?.originId;
+        if (pendingIds.has(ownerId) && !reached.has(ownerId)) {
+          continue;
+        }
+        if (reached.has(e.source) && !reached.has(e.target)) {
+          reached.set(e.target, e.source);
+          changed = true;
+        } else if (reached.has(e.target) && !reached.has(e.source)) {
+          reached.set(e.source, e.target);
+          changed = true;
+        }
+      }
+    }
+    return reached;
   }
 
   /**
-   * Remove all the children graph nodes of the specified origin graph node.
+   * Remove the children graph nodes of the specified origin graph node,
+   * with their descendants. Descendants still reachable from a root or from
+   * a pinned node through other branches are kept, and get the node they
+   * are reached from as their new origin. Pinned nodes are never removed.
    *
    * @param originId The ID of the origin graph node.
    * @param nodes The nodes array to remove nodes from.
    * @param edges The edges array to remove edges from.
+   * @param childFilter An optional function to filter the children to
+   * remove by their ID, e.g. to remove only those added by an expander.
    */
   private removeChildren(
     originId: string,
     nodes: GraphNode[],
-    edges: Edge[]
+    edges: Edge[],
+    childFilter?: (id: string) => boolean
   ): void {
     const selectedId = this._selectedNode$.value?.id;
 
-    // remove all the nodes whose origin ID matches,
-    // collecting their IDs
-    const removedIds: Set<string> = new Set<string>();
-    this.removeDescendantNodes(originId, nodes, removedIds);
-
-    // remove all the affected edges
+    // remove the edges added when expanding the origin
     for (let i = edges.length - 1; i > -1; i--) {
-      const endIds = this.getEdgeEndIds(edges[i].id!);
+      const e = edges[i];
+      if (
+        e.data?.originId === originId &&
+        (!childFilter ||
+          childFilter(e.source === originId ? e.target : e.source))
+      ) {
+        edges.splice(i, 1);
+      }
+    }
+
+    // collect descendants, and find those still reachable
+    const descendantIds = new Set<string>();
+    for (const node of nodes) {
+      if (
+        node.data.originId === originId &&
+        (!childFilter || childFilter(node.id)) &&
+        !descendantIds.has(node.id)
+      ) {
+        descendantIds.add(node.id);
+        this.collectDescendantIds(node.id, nodes, descendantIds);
+      }
+    }
+    const reached = this.getReachableIds(nodes, edges, descendantIds);
+
+    const removedIds = new Set<string>();
+    for (let i = nodes.length - 1; i > -1; i--) {
+      if (descendantIds.has(nodes[i].id) && !reached.has(nodes[i].id)) {
+        removedIds.add(nodes[i].id);
+        nodes.splice(i, 1);
+      }
+    }
+
+    // re-attach the kept descendants whose origin is gone to the node
+    // they were reached from
+    for (const node of nodes) {
+      const parentId = reached.get(node.id);
       if (
-        endIds?.length &&
-        (removedIds.has(endIds[0]) || removedIds.has(endIds[1]))
+        parentId &&
+        descendantIds.has(node.id) &&
+        (node.data.originId === originId || removedIds.has(node.data.originId))
       ) {
+        node.data.originId = parentId;
+      }
+    }
+
+    // cancel the pending requests of removed nodes
+    removedIds.forEach((id) => this.cancelNode(id));
+
+    // remove all the edges left dangling
+    for (let i = edges.length - 1; i > -1; i--) {
+      if (removedIds.has(edges[i].source) || removedIds.has(edges[i].target)) {
         edges.splice(i, 1);
       }
     }
 
-    // if the removed node was the selected one, select the root origin
+    // if the removed node was the selected one, select the first root
     if (selectedId && removedIds.has(selectedId)) {
-      this.selectNode(this._rootNode!.id);
+      this.setSelection(nodes.find((n) => this.isRoot(n))?.id || null);
     }
   }
 
@@ -538,7 +1553,6 @@ export class GraphWalker {
     const data: WalkerPropData = {
       originId: sourceId,
       uri: group.predicateUri,
-      customColor: '#FF5619',
       outFilter: {
         pageNumber: 1,
         pageSize: this.pageSize,
@@ -577,13 +1591,36 @@ export class GraphWalker {
     outFilter?: Partial<PagedTripleFilter> | null,
     inFilter?: Partial<PagedTripleFilter> | null
   ): void {
-    // prepare filters
+    this.loadNode(
+      node,
+      outFilter,
+      inFilter,
+      outFilter || inFilter ? 'filter' : 'expand'
+    );
+  }
+
+  /**
+   * Request the property groups of the specified node, adding them to the
+   * graph when the response arrives.
+   *
+   * @param node The node to expand.
+   * @param outFilter The properties to update for the output filter.
+   * @param inFilter The properties to update for the input filter.
+   * @param groupFilter An optional function to filter the groups to add.
+   * @returns Observable emitting when the graph has been updated.
+   */
+  private requestNode(
+    node: GraphNode,
+    outFilter?: Partial<PagedTripleFilter> | null,
+    inFilter?: Partial<PagedTripleFilter> | null,
+    groupFilter?: (group: TripleGroup) => boolean
+  ): Observable<void> {
+    // prepare new filters, assigned to the node only when the response
+    // arrives, so that they always describe the children in the graph
     const nid = this.getNodeNumericId(node.id);
     // outbound: node=S
     const outf: PagedTripleFilter = outFilter
-      ? Object.assign(node.data.outFilter, outFilter, {
-          subjectId: nid,
-        })
+      ? Object.assign({}, node.data.outFilter, outFilter, { subjectId: nid })
       : {
           pageNumber: 1,
           pageSize: this.pageSize,
@@ -591,41 +1628,53 @@ export class GraphWalker {
         };
     // inbound: node=O
     const inf: PagedTripleFilter = inFilter
-      ? Object.assign(node.data.inFilter, inFilter, {
-          objectId: nid,
-        })
+      ? Object.assign({}, node.data.inFilter, inFilter, { objectId: nid })
       : {
           pageNumber: 1,
           pageSize: this.pageSize,
           objectId: nid,
         };
 
-    // load
-    this.toggleLoading(true);
-    const nodes = [...this._nodes$.value];
-    const edges = [...this._edges$.value];
-
-    forkJoin({
-      outs: this._graphService.getTripleGroups(
-        outf.pageNumber,
-        outf.pageSize,
-        outf
-      ),
-      ins: this._graphService.getTripleGroups(
-        inf.pageNumber,
-        inf.pageSize,
-        inf
-      ),
-    }).subscribe({
-      next: (result) => {
+    return forkJoin({
+      outs: this._cache.getTripleGroups(outf.pageNumber, outf.pageSize, outf),
+      ins: this._cache.getTripleGroups(inf.pageNumber, inf.pageSize, inf),
+    }).pipe(
+      this.whileBusy(node),
+      retryWalkerRequest(this.retryOptions),
+      map((result) => {
+        // drop the response if the node was removed meanwhile
+        if (!this.hasNode(node.id)) {
+          return;
+        }
+        this.dismissError(node.id);
+        // skip the groups not matching the filter, if any
+        if (groupFilter) {
+          result = {
+            outs: {
+              ...result.outs,
+              items: result.outs.items.filter(groupFilter),
+            },
+            ins: { ...result.ins, items: result.ins.items.filter(groupFilter) },
+          };
+        }
+        // get the current graph when the response arrives, so that
+        // concurrent loads (e.g. of several roots) do not override
+        // each other
+        const nodes = [...this._nodes$.value];
+        const edges = [...this._edges$.value];
         node.data.expanded = true;
 
         // update origin's filters
         node.data.outFilter = outf;
         node.data.inFilter = inf;
 
-        // remove previous children
-        this.removeChildren(node.id, nodes, edges);
+        // remove previous children, except those added by expanders
+        this.removeChildren(
+          node.id,
+          nodes,
+          edges,
+          (id) => !isWalkerExpanderId(id)
+        );
 
         // add outbound children
         node.data.outTotal = result.outs.total;
@@ -697,17 +1746,41 @@ export class GraphWalker {
           }
         }
 
-        // update
         this._nodes$.next(nodes);
         this._edges$.next(edges);
+      })
+    );
+  }
+
+  /**
+   * Load the property groups of the specified node.
+   *
+   * @param node The node to expand.
+   * @param outFilter The properties to update for the output filter.
+   * @param inFilter The properties to update for the input filter.
+   * @param operation The operation to record in history, if any.
+   */
+  private loadNode(
+    node: GraphNode,
+    outFilter?: Partial<PagedTripleFilter> | null,
+    inFilter?: Partial<PagedTripleFilter> | null,
+    operation?: GraphWalkerOperation
+  ): void {
+    const state = operation ? this.getState() : null;
+
+    this.track(node.id, this.requestNode(node, outFilter, inFilter), {
+      next: () => {
+        if (state) {
+          this.pushHistory(operation!, node.id, state);
+        }
       },
       error: (error) => {
-        node.data.error = 'Error loading properties';
-        this._nodes$.next(nodes);
-        this.setError(error);
-      },
-      complete: () => {
-        this.toggleLoading(false);
+        this.addError(error, 'node', node.id, () => {
+          const n = this._nodes$.value.find((x) => x.id === node.id);
+          if (n) {
+            this.loadNode(n, outFilter, inFilter, operation);
+          }
+        });
       },
     });
   }
@@ -733,18 +1806,22 @@ export class GraphWalker {
   }
 
   private buildLiteralLabel(triple: UriTriple): string {
-    let value = triple.objectLiteral || '';
-    if (this.maxLiteralLen && value.length > this.maxLiteralLen) {
-      value = value.substring(0, this.maxLiteralLen) + '\u2026';
-    }
-    return value;
+    return formatWalkerLiteral(
+      {
+        value: triple.objectLiteral || '',
+        type: triple.literalType,
+        language: triple.literalLanguage,
+        number: triple.literalNumber,
+      },
+      this.maxLiteralLen,
+      this.literalFormatters
+    );
   }
 
   private buildNonLiteralNode(sourceId: string, node: UriNode): GraphNode {
     const nid = this.getNodeNumericId(sourceId);
     const data: WalkerNodeData = {
       originId: sourceId,
-      customColor: '#80ff95',
       uri: node.uri,
       sourceType: node.sourceType,
       isClass: node.isClass,
@@ -771,7 +1848,6 @@ export class GraphWalker {
   private buildLiteralNode(sourceId: string, triple: UriTriple): GraphNode {
     const data: WalkerLitData = {
       originId: sourceId,
-      customColor: '#ebe2e0',
       value: triple.objectLiteral || '',
       type: triple.literalType,
       language: triple.literalLanguage,
@@ -799,46 +1875,71 @@ export class GraphWalker {
     inFilter?: Partial<PagedLinkedNodeFilter> | null,
     litFilter?: Partial<PagedLinkedLiteralFilter> | null
   ): void {
-    // prepare filters
+    this.loadProperty(
+      node,
+      outFilter,
+      inFilter,
+      litFilter,
+      outFilter || inFilter || litFilter ? 'filter' : 'expand'
+    );
+  }
+
+  /**
+   * Request the outbound nodes, inbound nodes, and literal nodes of the
+   * specified property group node, adding them to the graph when the
+   * response arrives.
+   *
+   * @param node The property group node to expand.
+   * @param outFilter The properties to update for the outbound nodes filter.
+   * @param inFilter The properties to update for the inbound nodes filter.
+   * @param litFilter The properties to update for the literal nodes filter.
+   * @returns Observable emitting when the graph has been updated.
+   */
+  private requestProperty(
+    node: GraphNode,
+    outFilter?: Partial<PagedLinkedNodeFilter> | null,
+    inFilter?: Partial<PagedLinkedNodeFilter> | null,
+    litFilter?: Partial<PagedLinkedLiteralFilter> | null
+  ): Observable<void> {
+    // prepare new filters, assigned to the node only when the response
+    // arrives, so that they always describe the children in the graph
     const nid = this.getNodeNumericId(node.id);
     const data: WalkerPropData = node.data;
     const outf: PagedLinkedNodeFilter = Object.assign(
+      {},
       data.outFilter,
-      outFilter || {},
+      outFilter,
       { isObject: true }
     );
     const inf: PagedLinkedNodeFilter = Object.assign(
+      {},
       data.inFilter,
-      inFilter || {},
-      {
-        isObject: false,
-      }
+      inFilter,
+      { isObject: false }
     );
     const litf: PagedLinkedLiteralFilter = Object.assign(
+      {},
       data.litFilter,
-      litFilter || {},
+      litFilter,
       { subjectId: nid, predicateId: this.getPredicateNumericId(node.id) }
     );
 
-    // load
-    this.toggleLoading(true);
-    const nodes = [...this._nodes$.value];
-    const edges = [...this._edges$.value];
-
-    forkJoin({
-      outs: this._graphService.getLinkedNodes(
-        outf.pageNumber,
-        outf.pageSize,
-        outf
-      ),
-      ins: this._graphService.getLinkedNodes(inf.pageNumber, inf.pageSize, inf),
-      lits: this._graphService.getLinkedLiterals(
-        litf.pageNumber,
-        litf.pageSize,
-        litf
-      ),
-    }).subscribe({
-      next: (result) => {
+    return forkJoin({
+      outs: this._cache.getLinkedNodes(outf.pageNumber, outf.pageSize, outf),
+      ins: this._cache.getLinkedNodes(inf.pageNumber, inf.pageSize, inf),
+      lits: this._cache.getLinkedLiterals(litf.pageNumber, litf.pageSize, litf),
+    }).pipe(
+      this.whileBusy(node),
+      retryWalkerRequest(this.retryOptions),
+      map((result) => {
+        // drop the response if the node was removed meanwhile
+        if (!this.hasNode(node.id)) {
+          return;
+        }
+        this.dismissError(node.id);
+        // get the current graph when the response arrives
+        const nodes = [...this._nodes$.value];
+        const edges = [...this._edges$.value];
         node.data.expanded = true;
 
         // update origin's filters
@@ -846,8 +1947,13 @@ export class GraphWalker {
         node.data.inFilter = inf;
         node.data.litFilter = litf;
 
-        // remove previous children
-        this.removeChildren(node.id, nodes, edges);
+        // remove previous children, except those added by expanders
+        this.removeChildren(
+          node.id,
+          nodes,
+          edges,
+          (id) => !isWalkerExpanderId(id)
+        );
 
         // add outbound children
         node.data.outTotal = result.outs.total;
@@ -913,65 +2019,1010 @@ export class GraphWalker {
           this.addEdgeIfAbsent(edge, edges);
         }
 
-        // update
         this._nodes$.next(nodes);
         this._edges$.next(edges);
-      },
-      error: (error) => {
-        node.data.error = 'Error loading nodes';
-        this._nodes$.next(nodes);
-        this.setError(error);
-      },
-      complete: () => {
-        this.toggleLoading(false);
-      },
-    });
+      })
+    );
   }
 
   /**
-   * Expand the currently selected properties group node, by loading its
-   * outbound nodes, inbound nodes, and literal nodes. If there is no
-   * selection, or the selected node is not a properties group node, nothing
-   * is done.
+   * Load the outbound nodes, inbound nodes, and literal nodes of the
+   * specified property group node.
    *
+   * @param node The property group node to expand.
    * @param outFilter The properties to update for the outbound nodes filter.
    * @param inFilter The properties to update for the inbound nodes filter.
    * @param litFilter The properties to update for the literal nodes filter.
+   * @param operation The operation to record in history.
    */
-  public expandSelectedProperty(
-    outFilter?: Partial<PagedLinkedNodeFilter> | null,
-    inFilter?: Partial<PagedLinkedNodeFilter> | null,
-    litFilter?: Partial<PagedLinkedLiteralFilter> | null
+  private loadProperty(
+    node: GraphNode,
+    outFilter: Partial<PagedLinkedNodeFilter> | null | undefined,
+    inFilter: Partial<PagedLinkedNodeFilter> | null | undefined,
+    litFilter: Partial<PagedLinkedLiteralFilter> | null | undefined,
+    operation: GraphWalkerOperation
   ): void {
-    if (
-      !this._selectedNode$.value ||
-      !this._selectedNode$.value.id.startsWith('P')
-    ) {
-      return;
-    }
+    const state = this.getState();
+
+    this.track(
+      node.id,
+      this.requestProperty(node, outFilter, inFilter, litFilter),
+      {
+        next: () => {
+          this.pushHistory(operation, node.id, state);
+        },
+        error: (error) => {
+          this.addError(error, 'property', node.id, () => {
+            const n = this._nodes$.value.find((x) => x.id === node.id);
+            if (n) {
+              this.loadProperty(n, outFilter, inFilter, litFilter, operation);
+            }
+          });
+        },
+      }
+    );
+  }
+
+  /**
+   * Expand the currently selected properties group node, by loading its
+   * outbound nodes, inbound nodes, and literal nodes. If there is no
+   * selection, or the selected node is not a properties group node, nothing
+   * is done.
+   *
+   * @param outFilter The properties to update for the outbound nodes filter.
+   * @param inFilter The properties to update for the inbound nodes filter.
+   * @param litFilter The properties to update for the literal nodes filter.
+   */
+  public expandSelectedProperty(
+    outFilter?: Partial<PagedLinkedNodeFilter> | null,
+    inFilter?: Partial<PagedLinkedNodeFilter> | null,
+    litFilter?: Partial<PagedLinkedLiteralFilter> | null
+  ): void {
+    if (
+      !this._selectedNode$.value ||
+      !this._selectedNode$.value.id.startsWith('P')
+    ) {
+      return;
+    }
     const node = this._selectedNode$.value;
     this.expandProperty(node, outFilter, inFilter, litFilter);
   }
 
   /**
-   * Toggle the specified node by expanding or collapsing it.
+   * Register the specified expander, replacing any other expander with
+   * the same prefix.
+   *
+   * @param expander The expander.
+   * @throws Error if the expander prefix is not valid.
+   */
+  public registerExpander(expander: WalkerExpander): void {
+    if (!isValidWalkerExpanderPrefix(expander.prefix)) {
+      throw new Error(`Invalid walker expander prefix: "${expander.prefix}"`);
+    }
+    this._expanders.set(expander.prefix, expander);
+  }
+
+  /**
+   * Unregister the expander with the specified prefix. The nodes it built
+   * are left in the graph.
+   *
+   * @param prefix The expander prefix.
+   */
+  public unregisterExpander(prefix: string): void {
+    this._expanders.delete(prefix);
+  }
+
+  /**
+   * Get the expander with the specified prefix.
+   *
+   * @param prefix The expander prefix.
+   * @returns The expander, or undefined if not registered.
+   */
+  public getExpander(prefix: string): WalkerExpander | undefined {
+    return this._expanders.get(prefix);
+  }
+
+  /**
+   * Get the registered expanders, or only those which can expand the
+   * specified node.
+   *
+   * @param node The node to expand, if any.
+   * @returns The expanders.
+   */
+  public getExpanders(node?: GraphNode | null): WalkerExpander[] {
+    const expanders = Array.from(this._expanders.values());
+    return node ? expanders.filter((e) => e.canExpand(node)) : expanders;
+  }
+
+  private getExpansionFilters(expansions: { [key: string]: WalkerExpansion }): {
+    [key: string]: unknown;
+  } {
+    const filters: { [key: string]: unknown } = {};
+    Object.keys(expansions).forEach(
+      (prefix) => (filters[prefix] = expansions[prefix].filter)
+    );
+    return filters;
+  }
+
+  private buildExpanderNode(
+    expander: WalkerExpander,
+    origin: GraphNode,
+    item: unknown
+  ): GraphNode {
+    const node = expander.buildNode(item, origin);
+    const data: WalkerExpanderNodeData = {
+      ...node.data,
+      originId: origin.id,
+      key: node.key,
+    };
+    return {
+      id: buildWalkerExpanderId(expander.prefix, node.key),
+      label: node.label,
+      data: data,
+    };
+  }
+
+  /**
+   * Request the items of the specified node from the specified expander,
+   * adding their nodes to the graph when the response arrives. The nodes
+   * previously added by the same expander are replaced.
+   *
+   * @param node The node to expand.
+   * @param expander The expander.
+   * @param filter The expander filter.
+   * @returns Observable emitting when the graph has been updated.
+   */
+  private requestExpansion(
+    node: GraphNode,
+    expander: WalkerExpander,
+    filter: unknown
+  ): Observable<void> {
+    return expander.load(node, filter).pipe(
+      take(1),
+      this.whileBusy(node),
+      retryWalkerRequest(this.retryOptions),
+      map((page) => {
+        // drop the response if the node was removed meanwhile
+        if (!this.hasNode(node.id)) {
+          return;
+        }
+        this.dismissError(node.id);
+        // get the current graph when the response arrives
+        const nodes = [...this._nodes$.value];
+        const edges = [...this._edges$.value];
+        node.data.expansions = {
+          ...node.data.expansions,
+          [expander.prefix]: {
+            filter: filter,
+            total: page.total ?? page.items.length,
+          },
+        };
+        if (isWalkerExpanderId(node.id)) {
+          node.data.expanded = true;
+        }
+
+        // remove previous children from the same expander
+        this.removeChildren(node.id, nodes, edges, (id) =>
+          id.startsWith(expander.prefix)
+        );
+
+        // add children
+        for (const item of page.items) {
+          const child = this.buildExpanderNode(expander, node, item);
+          if (child.id === node.id) {
+            continue;
+          }
+          if (!nodes.some((n) => n.id === child.id)) {
+            nodes.push(child);
+          }
+          // edge from expanded node to child
+          const edge = {
+            id: this.buildEdgeId(node.id, child.id),
+            label: expander.name,
+            source: node.id,
+            target: child.id,
+            data: {
+              originId: node.id,
+            },
+          };
+          this.addEdgeIfAbsent(edge, edges);
+        }
+
+        this._nodes$.next(nodes);
+        this._edges$.next(edges);
+      })
+    );
+  }
+
+  /**
+   * Load the expansions of the specified node.
+   *
+   * @param node The node to expand.
+   * @param filters The filters of the expansions to load, keyed by
+   * the expander prefix. Unregistered expanders are skipped.
+   * @param operation The operation to record in history.
+   */
+  private loadExpansions(
+    node: GraphNode,
+    filters: { [key: string]: unknown },
+    operation: GraphWalkerOperation
+  ): void {
+    const prefixes = Object.keys(filters).filter((prefix) =>
+      this._expanders.has(prefix)
+    );
+    if (!prefixes.length) {
+      return;
+    }
+    const state = this.getState();
+    // the operation is recorded once all the expansions are loaded
+    let left = prefixes.length;
+
+    // each expander request is tracked on its own, so that it does not
+    // cancel the other requests for the same node
+    for (const prefix of prefixes) {
+      this.track(
+        this.getRequestKey(node.id, prefix),
+        this.requestExpansion(
+          node,
+          this._expanders.get(prefix)!,
+          filters[prefix]
+        ),
+        {
+          next: () => {
+            if (--left === 0) {
+              this.pushHistory(operation, node.id, state);
+            }
+          },
+          error: (error) => {
+            this.addError(error, 'expander', node.id, () => {
+              const n = this._nodes$.value.find((x) => x.id === node.id);
+              if (n) {
+                this.loadExpansions(
+                  n,
+                  { [prefix]: filters[prefix] },
+                  operation
+                );
+              }
+            });
+          },
+        }
+      );
+    }
+  }
+
+  /**
+   * Expand the specified node with the expander having the specified
+   * prefix. Nothing is done if the expander is not registered, or cannot
+   * expand the node.
+   *
+   * @param node The node to expand.
+   * @param prefix The expander prefix.
+   * @param filter The filter to use. When undefined, the filter of the
+   * current expansion is used if any, else the expander creates it.
+   */
+  public expandWith(node: GraphNode, prefix: string, filter?: unknown): void {
+    const expander = this._expanders.get(prefix);
+    if (!expander?.canExpand(node)) {
+      return;
+    }
+    this.loadExpansions(
+      node,
+      {
+        [prefix]:
+          filter !== undefined
+            ? filter
+            : node.data.expansions?.[prefix]?.filter ??
+              expander.createFilter(node),
+      },
+      filter !== undefined ? 'filter' : 'expand'
+    );
+  }
+
+  /**
+   * Collapse the expansion of the specified node by the expander having
+   * the specified prefix, removing the nodes it added.
+   *
+   * @param node The expanded node.
+   * @param prefix The expander prefix.
+   */
+  public collapseExpansion(node: GraphNode, prefix: string): void {
+    if (!node.data.expansions?.[prefix]) {
+      return;
+    }
+    this.cancel(node.id, prefix);
+    const state = this.getState();
+    const nodes = [...this._nodes$.value];
+    const edges = [...this._edges$.value];
+    this.removeChildren(node.id, nodes, edges, (id) => id.startsWith(prefix));
+
+    const expansions = { ...node.data.expansions };
+    delete expansions[prefix];
+    node.data.expansions = Object.keys(expansions).length
+      ? expansions
+      : undefined;
+    if (isWalkerExpanderId(node.id)) {
+      node.data.expanded = node.data.expansions ? true : undefined;
+    }
+    this._nodes$.next(nodes);
+    this._edges$.next(edges);
+    this.pushHistory('collapse', node.id, state);
+  }
+
+  private isPredicateAllowed(
+    uri: string,
+    options?: WalkerExpandOptions
+  ): boolean {
+    if (options?.denyPredicates?.includes(uri)) {
+      return false;
+    }
+    return (
+      !options?.allowPredicates?.length || options.allowPredicates.includes(uri)
+    );
+  }
+
+  /**
+   * Get the nodes linked to the specified node by the edges it owns,
+   * i.e. the children added by its expansion.
+   */
+  private getOwnedChildren(node: GraphNode): GraphNode[] {
+    const ids = new Set<string>();
+    this._edges$.value.forEach((e) => {
+      if (e.data?.originId === node.id) {
+        ids.add(e.source === node.id ? e.target : e.source);
+      }
+    });
+    return this._nodes$.value.filter((n) => ids.has(n.id));
+  }
+
+  /**
+   * Expand the graph breadth-first from the specified node, up to the
+   * specified depth. Each depth level expands either nodes into their
+   * property groups, or property groups into their nodes and literals:
+   * so, starting from a node a depth of 2 reaches the nodes directly
+   * linked to it. Already expanded nodes are not loaded again, but their
+   * children are walked. The expansion stops cleanly when a limit set in
+   * the options is reached, and can be cancelled like any other request
+   * for the start node. The requests for the other nodes are tracked under
+   * their own ID, so that they can be cancelled like the others: a node
+   * whose request is cancelled, or which is removed from the graph, is
+   * skipped. Its progress is reported by expandProgress$.
+   * Only nodes and property groups are expanded: the nodes added by
+   * expanders are not walked.
+   *
+   * @param nodeId The ID of the node or property group to start from.
+   * @param depth The number of levels to expand.
+   * @param options The expansion options.
+   */
+  public expandToDepth(
+    nodeId: string,
+    depth: number,
+    options?: WalkerExpandOptions
+  ): void {
+    const start = this._nodes$.value.find((n) => n.id === nodeId);
+    if (!start || !/^[NP]/.test(start.id) || depth < 1) {
+      return;
+    }
+    const state = this.getState();
+    const initialCount = this._nodes$.value.length;
+    const groupFilter = (g: TripleGroup) =>
+      this.isPredicateAllowed(g.predicateUri, options);
+    const progress: WalkerExpandProgress = {
+      nodeId: nodeId,
+      depth: 0,
+      nodes: 0,
+      requests: 0,
+      done: false,
+    };
+
+    const expansion$ = new Observable<void>((subscriber) => {
+      const visited = new Set<string>([nodeId]);
+      let queue: GraphNode[] = [];
+      let next: GraphNode[] = [start];
+      let changed = false;
+      let inner: Subscription | undefined;
+
+      const finish = (limit?: 'nodes' | 'requests') => {
+        progress.done = true;
+        progress.limit = limit;
+        this._expandProgress$.next({ ...progress });
+        if (changed) {
+          this.pushHistory('expand', nodeId, state);
+        }
+        subscriber.next();
+        subscriber.complete();
+      };
+
+      // update progress after expanding node, and queue its children
+      // for the next level; returns false if a limit was reached
+      const visit = (node: GraphNode): boolean => {
+        progress.nodes = Math.max(0, this._nodes$.value.length - initialCount);
+        this._expandProgress$.next({ ...progress });
+        if (options?.maxNodes && progress.nodes >= options.maxNodes) {
+          finish('nodes');
+          return false;
+        }
+        this.getOwnedChildren(node).forEach((child) => {
+          if (
+            visited.has(child.id) ||
+            !/^[NP]/.test(child.id) ||
+            (child.id.startsWith('P') &&
+              !this.isPredicateAllowed(child.data.uri, options))
+          ) {
+            return;
+          }
+          visited.add(child.id);
+          next.push(child);
+        });
+        return true;
+      };
+
+      const step = (): void => {
+        while (!subscriber.closed) {
+          // move to the next level when the current one is over
+          if (!queue.length) {
+            if (!next.length || progress.depth >= depth) {
+              finish();
+              return;
+            }
+            queue = next;
+            next = [];
+            progress.depth++;
+          }
+          const node = queue.shift()!;
+          // skip the nodes removed while expanding
+          if (!this.hasNode(node.id)) {
+            continue;
+          }
+          if (node.data.expanded) {
+            if (!visit(node)) {
+              return;
+            }
+            continue;
+          }
+
+          const isNode = node.id.startsWith('N');
+          const cost = isNode ? 2 : 3;
+          if (
+            options?.maxRequests &&
+            progress.requests + cost > options.maxRequests
+          ) {
+            finish('requests');
+            return;
+          }
+          progress.requests += cost;
+
+          let ended = false;
+          let waiting = false;
+          const request$ = (
+            isNode
+              ? this.requestNode(node, null, null, groupFilter)
+              : this.requestProperty(node)
+          ).pipe(
+            finalize(() => {
+              // a request cancelled from outside just skips its node
+              if (!ended) {
+                ended = true;
+                if (waiting) {
+                  step();
+                }
+              }
+            })
+          );
+          const observer: Partial<Observer<void>> = {
+            complete: () => {
+              ended = true;
+              changed = true;
+              if (visit(node) && waiting) {
+                step();
+              }
+            },
+            error: (error) => {
+              ended = true;
+              // retrying restarts the expansion, reusing cached responses
+              this.addError(error, 'expand', node.id, () => {
+                if (this._nodes$.value.some((n) => n.id === nodeId)) {
+                  this.expandToDepth(nodeId, depth, options);
+                }
+              });
+              progress.done = true;
+              this._expandProgress$.next({ ...progress });
+              if (changed) {
+                this.pushHistory('expand', nodeId, state);
+              }
+              subscriber.complete();
+            },
+          };
+          // the request for the start node is tracked with the expansion;
+          // the others supersede any pending load of their node
+          inner =
+            node.id === nodeId
+              ? request$.subscribe(observer)
+              : this.track(node.id, request$, observer);
+          // wait for an asynchronous response
+          if (!ended) {
+            waiting = true;
+            return;
+          }
+        }
+      };
+
+      this._expandProgress$.next({ ...progress });
+      step();
+
+      return () => {
+        inner?.unsubscribe();
+        if (!progress.done) {
+          progress.done = true;
+          progress.cancelled = true;
+          this._expandProgress$.next({ ...progress });
+        }
+      };
+    });
+
+    this.track(nodeId, expansion$, {
+      error: (error) => {
+        this.addError(error, 'expand', nodeId);
+      },
+    });
+  }
+
+  /**
+   * Toggle the specified node by expanding or collapsing it. When the
+   * node is being loaded, its load is cancelled instead.
    *
    * @param node The node to toggle.
    */
   public toggleNode(node: GraphNode): void {
+    // toggling a node being loaded just cancels the load; expander nodes
+    // are loaded only by expanders
+    if (
+      !node.data.expanded &&
+      (isWalkerExpanderId(node.id)
+        ? this.cancelNode(node.id)
+        : this.cancel(node.id))
+    ) {
+      return;
+    }
     if (node.data.expanded) {
+      this.cancelNode(node.id);
+      const state = this.getState();
       const nodes = [...this._nodes$.value];
       const edges = [...this._edges$.value];
       this.removeChildren(node.id, nodes, edges);
       node.data.expanded = undefined;
+      node.data.expansions = undefined;
       this._nodes$.next(nodes);
       this._edges$.next(edges);
+      this.pushHistory('collapse', node.id, state);
     } else {
       if (node.id.startsWith('N')) {
         this.expandNode(node);
       } else if (node.id.startsWith('P')) {
         this.expandProperty(node);
+      } else if (isWalkerExpanderId(node.id)) {
+        const expander = this.getExpanders(node)[0];
+        if (expander) {
+          this.expandWith(node, expander.prefix);
+        }
+      }
+    }
+  }
+
+  /**
+   * Refresh the specified node, bypassing the cache: all the cached
+   * responses referring to it are discarded, and if the node is expanded
+   * its children are loaded again with the current filters. For nodes
+   * added by expanders, their expansions are loaded again.
+   *
+   * @param node The node to refresh.
+   */
+  public refreshNode(node: GraphNode): void {
+    if (isWalkerExpanderId(node.id)) {
+      if (node.data.expansions) {
+        this.loadExpansions(
+          node,
+          this.getExpansionFilters(node.data.expansions),
+          'refresh'
+        );
       }
+      return;
+    }
+    this._cache.invalidate(this.getNodeNumericId(node.id));
+    if (!node.data.expanded) {
+      return;
+    }
+    if (node.id.startsWith('N')) {
+      this.loadNode(node, {}, {}, 'refresh');
+    } else if (node.id.startsWith('P')) {
+      this.loadProperty(node, null, null, null, 'refresh');
+    }
+  }
+
+  /**
+   * Pin or unpin the specified node. A pinned node is never removed when
+   * collapsing, and keeps the nodes linked to it.
+   *
+   * @param id The ID of the node to pin or unpin.
+   * @param pinned True to pin, false to unpin.
+   */
+  public setPinned(id: string, pinned: boolean): void {
+    const node = this._nodes$.value.find((n) => n.id === id);
+    if (!node || !!node.data.pinned === pinned) {
+      return;
+    }
+    const state = this.getState();
+    node.data.pinned = pinned || undefined;
+    this._nodes$.next([...this._nodes$.value]);
+    this.pushHistory('pin', id, state);
+  }
+
+  /**
+   * Toggle the pinned state of the selected node, if any.
+   */
+  public togglePinSelectedNode(): void {
+    const node = this._selectedNode$.value;
+    if (node) {
+      this.setPinned(node.id, !node.data.pinned);
+    }
+  }
+
+  private findEdge(id: string, edges: Edge[]): Edge | undefined {
+    const edge = edges.find((e) => e.id === id);
+    if (edge) {
+      return edge;
+    }
+    const endIds = this.getEdgeEndIds(id);
+    return endIds
+      ? edges.find((e) => e.id === this.buildEdgeId(endIds[1], endIds[0]))
+      : undefined;
+  }
+
+  private setHighlight(
+    nodes: GraphNode[],
+    edges: Edge[],
+    nodeIds: Set<string>,
+    edgeIds: Set<string>
+  ): void {
+    nodes.forEach((n) => {
+      n.data.highlighted = nodeIds.has(n.id) || undefined;
+    });
+    edges.forEach((e) => {
+      if (e.data) {
+        e.data.highlighted = edgeIds.has(e.id!) || undefined;
+      }
+    });
+  }
+
+  /**
+   * Remove the highlight from all the nodes and edges.
+   */
+  public clearHighlights(): void {
+    const nodes = [...this._nodes$.value];
+    const edges = [...this._edges$.value];
+    this.setHighlight(nodes, edges, new Set<string>(), new Set<string>());
+    this._nodes$.next(nodes);
+    this._edges$.next(edges);
+  }
+
+  /**
+   * Show the specified paths in the graph, highlighting them. Missing
+   * nodes and property groups along the paths are added to the graph.
+   * Each path must start from a node already present in the graph.
+   *
+   * @param paths The paths to show.
+   */
+  public showPaths(paths: GraphPath[]): void {
+    const state = this.getState();
+    const nodes = [...this._nodes$.value];
+    const edges = [...this._edges$.value];
+    const nodeIds = new Set<string>();
+    const edgeIds = new Set<string>();
+
+    const addNode = (node: GraphNode) => {
+      if (!nodes.some((n) => n.id === node.id)) {
+        nodes.push(node);
+      }
+      nodeIds.add(node.id);
+    };
+    const addEdge = (
+      source: string,
+      target: string,
+      originId: string,
+      label = ''
+    ) => {
+      const edge: Edge = {
+        id: this.buildEdgeId(source, target),
+        label: label,
+        source: source,
+        target: target,
+        data: {
+          originId: originId,
+        },
+      };
+      this.addEdgeIfAbsent(edge, edges);
+      edgeIds.add(this.findEdge(edge.id!, edges)!.id!);
+    };
+
+    for (const path of paths) {
+      if (!nodes.some((n) => n.id === this.buildNodeId(path.nodes[0].id))) {
+        continue;
+      }
+      nodeIds.add(this.buildNodeId(path.nodes[0].id));
+
+      for (let i = 0; i < path.steps.length; i++) {
+        const step = path.steps[i];
+        const aId = this.buildNodeId(path.nodes[i].id);
+        const prop = this.buildPropertyNode(aId, {
+          predicateId: step.predicateId,
+          predicateUri: step.predicateUri,
+          count: step.count,
+        });
+        addNode(prop);
+        const b = this.buildNonLiteralNode(prop.id, path.nodes[i + 1]);
+        addNode(b);
+
+        if (step.subjectId === path.nodes[i].id) {
+          // a -> P -> b
+          addEdge(aId, prop.id, aId, step.predicateUri);
+          addEdge(prop.id, b.id, prop.id);
+        } else {
+          // b -> P -> a
+          addEdge(prop.id, aId, aId, step.predicateUri);
+          addEdge(b.id, prop.id, prop.id);
+        }
+      }
+    }
+
+    this.setHighlight(nodes, edges, nodeIds, edgeIds);
+    this._nodes$.next(nodes);
+    this._edges$.next(edges);
+    this.pushHistory('path', undefined, state);
+  }
+
+  /**
+   * Get the first root origin node, if any.
+   *
+   * @returns The root node or undefined.
+   */
+  public getRootNode(): GraphNode | undefined {
+    return this._nodes$.value.find((n) => this.isRoot(n));
+  }
+
+  /**
+   * Get all the root origin nodes.
+   *
+   * @returns The root nodes.
+   */
+  public getRootNodes(): GraphNode[] {
+    return this._nodes$.value.filter((n) => this.isRoot(n));
+  }
+
+  /**
+   * Get the position set by users for the specified node.
+   *
+   * @param id The node ID.
+   * @returns The position, or undefined if not set.
+   */
+  public getNodePosition(id: string): WalkerNodePosition | undefined {
+    return this._positions.get(id);
+  }
+
+  /**
+   * Set or clear the position of the specified node.
+   *
+   * @param id The node ID.
+   * @param position The position, or null to clear it.
+   */
+  public setNodePosition(
+    id: string,
+    position: WalkerNodePosition | null
+  ): void {
+    if (position) {
+      this._positions.set(id, { x: position.x, y: position.y });
+    } else {
+      this._positions.delete(id);
+    }
+  }
+
+  /**
+   * Get all the positions set by users, keyed by node ID.
+   *
+   * @returns The positions.
+   */
+  public getNodePositions(): { [key: string]: WalkerNodePosition } {
+    const positions: { [key: string]: WalkerNodePosition } = {};
+    this._positions.forEach((p, id) => (positions[id] = { ...p }));
+    return positions;
+  }
+
+  /**
+   * Clear all the positions set by users, so that the layout places
+   * every node.
+   */
+  public clearNodePositions(): void {
+    this._positions.clear();
+  }
+
+  /**
+   * Get a snapshot of the current walker state. Only the essential properties
+   * of nodes and edges are included, leaving out any layout-related data
+   * except for the positions set by users.
+   *
+   * @returns The state.
+   */
+  public getState(): GraphWalkerState {
+    const state: GraphWalkerState = {
+      version: GRAPH_WALKER_STATE_VERSION,
+      rootId: this.getRootNode()?.id,
+      selectedId: this._selectedNode$.value?.id,
+      nodes: this._nodes$.value.map((n) => ({
+        id: n.id,
+        label: n.label,
+        data: {
+          ...n.data,
+          selected: undefined,
+          error: undefined,
+          busy: undefined,
+        },
+      })),
+      edges: this._edges$.value.map((e) => ({
+        id: e.id,
+        label: e.label,
+        source: e.source,
+        target: e.target,
+        data: e.data,
+      })),
+    };
+    if (this._positions.size) {
+      state.positions = this.getNodePositions();
+    }
+    // deep copy so that the snapshot is not affected by later changes
+    return JSON.parse(JSON.stringify(state));
+  }
+
+  /**
+   * Restore the walker state from the specified snapshot, replacing
+   * the current graph.
+   *
+   * @param state The state to restore.
+   * @param keepPositions True to keep the current node positions, ignoring
+   * those in the state. This is used when undoing or redoing; otherwise,
+   * the positions are replaced with those in the state, if any.
+   * @throws Error if the state is invalid or has an unsupported version.
+   */
+  public setState(state: GraphWalkerState, keepPositions = false): void {
+    if (!state?.nodes || !state.edges) {
+      throw new Error('Invalid graph walker state');
+    }
+    if (state.version !== GRAPH_WALKER_STATE_VERSION) {
+      throw new Error(
+        `Unsupported graph walker state version: ${state.version}`
+      );
+    }
+    // late responses must not change the restored state
+    this.cancelAll();
+    const copy: GraphWalkerState = JSON.parse(JSON.stringify(state));
+    const nodes = copy.nodes.map((n) => ({ ...n, data: n.data || {} }));
+
+    this._selectedNode$.next(null);
+    this.resetFilters();
+    this._error$.next(null);
+    if (!keepPositions) {
+      this._positions.clear();
+      Object.keys(copy.positions || {}).forEach((id) =>
+        this._positions.set(id, copy.positions![id])
+      );
+    }
+    // keep failed nodes marked, dropping the errors and retries of the
+    // nodes not restored
+    const ids = new Set(nodes.map((n) => n.id));
+    const errors = this._errors$.value.filter(
+      (e) => e.nodeId && ids.has(e.nodeId)
+    );
+    errors.forEach((e) => {
+      nodes.find((n) => n.id === e.nodeId)!.data.error = e;
+    });
+    Array.from(this._retries.keys())
+      .filter((id) => !ids.has(id))
+      .forEach((id) => this._retries.delete(id));
+    if (errors.length !== this._errors$.value.length) {
+      this._errors$.next(errors);
+    }
+    this._edges$.next(copy.edges);
+    this._nodes$.next(nodes);
+    if (copy.selectedId) {
+      this.setSelection(copy.selectedId);
+    }
+  }
+
+  private updateHistoryFlags(): void {
+    this._canUndo$.next(this._undoStack.length > 0);
+    this._canRedo$.next(this._redoStack.length > 0);
+  }
+
+  /**
+   * Record an operation in the history. This clears the redo stack.
+   *
+   * @param operation The operation.
+   * @param nodeId The ID of the node the operation refers to.
+   * @param state The state of the walker before the operation.
+   */
+  private pushHistory(
+    operation: GraphWalkerOperation,
+    nodeId: string | undefined,
+    state: GraphWalkerState
+  ): void {
+    this._undoStack.push({ operation, nodeId, state });
+    if (this._undoStack.length > this.maxHistory) {
+      this._undoStack.splice(0, this._undoStack.length - this.maxHistory);
+    }
+    this._redoStack.length = 0;
+    this.updateHistoryFlags();
+    // every recorded operation is complete here
+    this.emitEvent(operation, nodeId);
+  }
+
+  private emitEvent(
+    type: GraphWalkerEventType,
+    nodeId?: string,
+    event?: Partial<GraphWalkerEvent>
+  ): void {
+    const node = nodeId
+      ? this._nodes$.value.find((n) => n.id === nodeId)
+      : undefined;
+    this._events$.next({
+      type,
+      nodeId,
+      node,
+      filters:
+        nodeId && (type === 'expand' || type === 'filter' || type === 'refresh')
+          ? this.getNodeFilters(nodeId)
+          : undefined,
+      ...event,
+    });
+  }
+
+  /**
+   * Clear the operations history.
+   */
+  public clearHistory(): void {
+    this._undoStack.length = 0;
+    this._redoStack.length = 0;
+    this.updateHistoryFlags();
+  }
+
+  /**
+   * Undo the last operation, if any.
+   *
+   * @returns The undone history entry, or null if nothing to undo.
+   */
+  public undo(): GraphWalkerHistoryEntry | null {
+    const entry = this._undoStack.pop();
+    if (!entry) {
+      return null;
+    }
+    this._redoStack.push({ ...entry, state: this.getState() });
+    // positions are not part of the history
+    this.setState(entry.state, true);
+    this.updateHistoryFlags();
+    this.emitEvent('undo', entry.nodeId, { operation: entry.operation });
+    return entry;
+  }
+
+  /**
+   * Redo the last undone operation, if any.
+   *
+   * @returns The redone history entry, or null if nothing to redo.
+   */
+  public redo(): GraphWalkerHistoryEntry | null {
+    const entry = this._redoStack.pop();
+    if (!entry) {
+      return null;
     }
+    this._undoStack.push({ ...entry, state: this.getState() });
+    this.setState(entry.state, true);
+    this.updateHistoryFlags();
+    this.emitEvent('redo', entry.nodeId, { operation: entry.operation });
+    return entry;
   }
 }
@@ -1,8 +1,9 @@
+import { WalkerPrefixRegistry } from '../walker-prefixes';
 import { GraphNodeLabelPipe } from './graph-node-label.pipe';
 
 describe('GraphNodeLabelPipe', () => {
   it('create an instance', () => {
-    const pipe = new GraphNodeLabelPipe();
+    const pipe = new GraphNodeLabelPipe(new WalkerPrefixRegistry());
     expect(pipe).toBeTruthy();
   });
 });
@@ -1,16 +1,19 @@
 import { Pipe, PipeTransform } from '@angular/core';
 import { Node as GraphNode } from '@swimlane/ngx-graph';
 
+import { WalkerPrefixRegistry } from '../walker-prefixes';
+
 /**
  * Get the extended label for the specified graph node. This returns the label
  * for N nodes, and the uri + "=" + the label for P nodes. That's because P
  * nodes label is just the count of the triples group, so the predicate ID is
- * got from the property node's data uri.
+ * got from the property node's data uri, shortened into a CURIE when possible.
  */
 @Pipe({
   name: 'graphNodeLabel'
 })
 export class GraphNodeLabelPipe implements PipeTransform {
+  constructor(private _registry: WalkerPrefixRegistry) {}
 
   transform(value: unknown, ...args: unknown[]): unknown {
     const node = value as GraphNode;
@@ -18,7 +21,7 @@ export class GraphNodeLabelPipe implements PipeTransform {
       return value;
     }
     if (node.id.startsWith('P') && node.data.uri) {
-      return `${node.data.uri}=${node.label}`;
+      return `${this._registry.compact(node.data.uri)}=${node.label}`;
     }
     return node.label;
   }
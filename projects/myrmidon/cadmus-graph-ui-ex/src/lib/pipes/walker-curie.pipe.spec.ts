@@ -0,0 +1,27 @@
+import { WalkerPrefixRegistry } from '../walker-prefixes';
+import { WalkerCuriePipe } from './walker-curie.pipe';
+
+describe('WalkerCuriePipe', () => {
+  const pipe = new WalkerCuriePipe(
+    new WalkerPrefixRegistry({ x: 'http://www.mysite.org/' })
+  );
+
+  it('create an instance', () => {
+    expect(pipe).toBeTruthy();
+  });
+
+  it('should compact URIs with registered namespaces', () => {
+    expect(pipe.transform('http://www.w3.org/2000/01/rdf-schema#label')).toBe(
+      'rdfs:label'
+    );
+    expect(pipe.transform('http://www.mysite.org/guys/petrarca')).toBe(
+      'x:guys/petrarca'
+    );
+  });
+
+  it('should return other values unchanged', () => {
+    expect(pipe.transform('http://example.org/a')).toBe('http://example.org/a');
+    expect(pipe.transform(null)).toBeNull();
+    expect(pipe.transform(3)).toBe(3);
+  });
+});
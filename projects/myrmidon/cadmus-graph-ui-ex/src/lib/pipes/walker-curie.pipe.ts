@@ -0,0 +1,19 @@
+import { Pipe, PipeTransform } from '@angular/core';
+
+import { WalkerPrefixRegistry } from '../walker-prefixes';
+
+/**
+ * Shorten the specified URI into a CURIE, using the namespace prefixes
+ * registered in WalkerPrefixRegistry. Values not starting with any
+ * registered namespace are returned unchanged.
+ */
+@Pipe({
+  name: 'walkerCurie',
+})
+export class WalkerCuriePipe implements PipeTransform {
+  constructor(private _registry: WalkerPrefixRegistry) {}
+
+  transform(value: unknown, ...args: unknown[]): unknown {
+    return typeof value === 'string' ? this._registry.compact(value) : value;
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  buildWalkerError,
+  getWalkerErrorStatus,
+  isTransientWalkerError,
+  WALKER_DEFAULT_RETRY_OPTIONS,
+} from './walker-errors';
+
+describe('walker errors', () => {
+  it('should get the status of an error', () => {
+    expect(getWalkerErrorStatus({ status: 404 })).toBe(404);
+    expect(getWalkerErrorStatus({ status: 0 })).toBe(0);
+    expect(getWalkerErrorStatus({ status: '404' })).toBeUndefined();
+    expect(getWalkerErrorStatus('error')).toBeUndefined();
+    expect(getWalkerErrorStatus(null)).toBeUndefined();
+  });
+
+  it('should detect transient errors by status', () => {
+    const options = WALKER_DEFAULT_RETRY_OPTIONS;
+    expect(isTransientWalkerError({ status: 503 }, options)).toBeTrue();
+    expect(isTransientWalkerError({ status: 0 }, options)).toBeTrue();
+    expect(isTransientWalkerError({ status: 404 }, options)).toBeFalse();
+    expect(isTransientWalkerError(new Error('x'), options)).toBeFalse();
+    expect(
+      isTransientWalkerError(
+        { status: 404 },
+        { count: 1, delay: 0, statuses: [404] }
+      )
+    ).toBeTrue();
+  });
+
+  it('should build an error from a string', () => {
+    const e = buildWalkerError('failed', 'root', 'N1');
+    expect(e.operation).toBe('root');
+    expect(e.message).toBe('failed');
+    expect(e.nodeId).toBe('N1');
+    expect(e.status).toBeUndefined();
+  });
+
+  it('should build an error preferring the server message', () => {
+    const e = buildWalkerError(
+      { status: 500, message: 'Http failure', error: { message: 'Boom' } },
+      'node'
+    );
+    expect(e.message).toBe('Boom');
+    expect(e.status).toBe(500);
+    expect(buildWalkerError(new Error('Oops'), 'node').message).toBe('Oops');
+    expect(buildWalkerError(42, 'node').message).toBe('Walker error');
+  });
+
+  it('should mark transient errors only when retries are enabled', () => {
+    const error = { status: 503 };
+    expect(
+      buildWalkerError(
+        error,
+        'node',
+        'N1',
+        undefined,
+        WALKER_DEFAULT_RETRY_OPTIONS
+      ).transient
+    ).toBeTrue();
+    expect(
+      buildWalkerError(error, 'node', 'N1', undefined, { count: 0, delay: 0 })
+        .transient
+    ).toBeUndefined();
+  });
+});
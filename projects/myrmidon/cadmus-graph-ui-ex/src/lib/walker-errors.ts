@@ -0,0 +1,187 @@
+import { InjectionToken } from '@angular/core';
+import { MonoTypeOperatorFunction, retry, throwError, timer } from 'rxjs';
+
+/**
+ * The operation which failed in the graph walker.
+ * - root: loading a root node.
+ * - node: loading the property groups of a node.
+ * - property: loading the nodes and literals of a property group.
+ * - expand: expanding a node to a given depth.
+ * - expander: expanding a node with custom expanders.
+ */
+export type WalkerErrorOperation =
+  | 'root'
+  | 'node'
+  | 'property'
+  | 'expand'
+  | 'expander';
+
+/**
+ * An error in the graph walker.
+ */
+export interface WalkerError {
+  operation: WalkerErrorOperation;
+  message: string;
+  /**
+   * The HTTP status code, if any (0=network error).
+   */
+  status?: number;
+  /**
+   * The ID of the graph node the failed request refers to.
+   */
+  nodeId?: string;
+  /**
+   * The filters of the failed request, keyed by name (e.g. outFilter).
+   */
+  filters?: { [key: string]: unknown };
+  /**
+   * True if the error was transient, i.e. it has been retried.
+   */
+  transient?: boolean;
+  /**
+   * True if the failed request can be retried.
+   */
+  retryable?: boolean;
+  /**
+   * The time of the error, as milliseconds since the epoch.
+   */
+  time: number;
+}
+
+/**
+ * Options for retrying the walker requests failing with a transient error.
+ */
+export interface WalkerRetryOptions {
+  /**
+   * The maximum number of retries (0=no retries).
+   */
+  count: number;
+  /**
+   * The delay in milliseconds before the first retry.
+   */
+  delay: number;
+  /**
+   * The factor multiplying the delay at each further retry. Default is 2.
+   */
+  factor?: number;
+  /**
+   * The HTTP status codes of transient errors.
+   */
+  statuses?: number[];
+}
+
+/**
+ * The default retry options: retry twice, after 500 and 1000 ms.
+ */
+export const WALKER_DEFAULT_RETRY_OPTIONS: WalkerRetryOptions = {
+  count: 2,
+  delay: 500,
+  factor: 2,
+  statuses: [0, 408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Injection token for the walker retry options. When not provided,
+ * WALKER_DEFAULT_RETRY_OPTIONS is used.
+ */
+export const WALKER_RETRY_OPTIONS = new InjectionToken<WalkerRetryOptions>(
+  'WALKER_RETRY_OPTIONS'
+);
+
+/**
+ * Get the HTTP status code from the specified error, if any.
+ *
+ * @param error The error, e.g. an HttpErrorResponse.
+ * @returns The status code, or undefined.
+ */
+export function getWalkerErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null | undefined)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Check whether the specified error is transient according to the
+ * specified options.
+ *
+ * @param error The error.
+ * @param options The retry options.
+ * @returns True if transient.
+ */
+export function isTransientWalkerError(
+  error: unknown,
+  options: WalkerRetryOptions
+): boolean {
+  const status = getWalkerErrorStatus(error);
+  return (
+    status !== undefined &&
+    (options.statuses || WALKER_DEFAULT_RETRY_OPTIONS.statuses!).includes(
+      status
+    )
+  );
+}
+
+/**
+ * Build a walker error from the specified error.
+ *
+ * @param error The error, e.g. an HttpErrorResponse, an Error, or a string.
+ * @param operation The failed operation.
+ * @param nodeId The ID of the node the failed request refers to.
+ * @param filters The filters of the failed request.
+ * @param options The retry options, used to mark transient errors.
+ * @returns The walker error.
+ */
+export function buildWalkerError(
+  error: unknown,
+  operation: WalkerErrorOperation,
+  nodeId?: string,
+  filters?: { [key: string]: unknown },
+  options?: WalkerRetryOptions
+): WalkerError {
+  const status = getWalkerErrorStatus(error);
+  // an HttpErrorResponse has the server message in its error
+  const e = error as
+    | { message?: unknown; error?: { message?: unknown } | null }
+    | null
+    | undefined;
+  let message: string;
+  if (typeof error === 'string') {
+    message = error;
+  } else if (typeof e?.error?.message === 'string') {
+    message = e.error.message;
+  } else if (typeof e?.message === 'string') {
+    message = e.message;
+  } else {
+    message = 'Walker error';
+  }
+  return {
+    operation,
+    message,
+    status,
+    nodeId,
+    filters,
+    transient:
+      options && options.count > 0
+        ? isTransientWalkerError(error, options)
+        : undefined,
+    time: Date.now(),
+  };
+}
+
+/**
+ * An RxJS operator retrying a request failing with a transient error,
+ * with an exponential backoff.
+ *
+ * @param options The retry options.
+ * @returns The operator.
+ */
+export function retryWalkerRequest<T>(
+  options: WalkerRetryOptions
+): MonoTypeOperatorFunction<T> {
+  return retry({
+    count: options.count,
+    delay: (error, retryCount) =>
+      isTransientWalkerError(error, options)
+        ? timer(options.delay * Math.pow(options.factor ?? 2, retryCount - 1))
+        : throwError(() => error),
+  });
+}
@@ -0,0 +1,156 @@
+import { InjectionToken, Type } from '@angular/core';
+import { Observable } from 'rxjs';
+import { Node as GraphNode } from '@swimlane/ngx-graph';
+
+/**
+ * A page of the items loaded by a walker expander.
+ */
+export interface WalkerExpanderPage<TItem = unknown> {
+  items: TItem[];
+  /**
+   * The total number of items matching the filter, when items are paged.
+   * When not set, this is the number of items.
+   */
+  total?: number;
+}
+
+/**
+ * A node built by a walker expander from one of its items.
+ */
+export interface WalkerExpanderNode {
+  /**
+   * The key of the node, unique among the nodes built by the expander.
+   * The ID of the graph node is the expander prefix followed by this key,
+   * which thus cannot be empty nor include underscores.
+   */
+  key: string;
+  label: string;
+  /**
+   * Any additional data, added to the graph node data. This must be
+   * serializable, as it is saved with the walker state.
+   */
+  data?: { [key: string]: unknown };
+}
+
+/**
+ * The component used to edit the filter of a walker expander. This is
+ * created dynamically, so it must declare node, filter and total as its
+ * inputs. Whenever it emits a filter, the node is expanded again with it;
+ * filterChange is usually an EventEmitter output.
+ */
+export interface WalkerExpanderFilterComponent<TFilter = unknown> {
+  node?: GraphNode | null;
+  filter?: TFilter | null;
+  total?: number;
+  filterChange: Observable<TFilter>;
+}
+
+/**
+ * An expander of walker nodes into non-graph content, like the Cadmus
+ * item behind a node's SID, its parts, or the records of an external
+ * authority. The nodes built by an expander have an ID starting with its
+ * prefix, and can be expanded in turn by the expanders accepting them.
+ */
+export interface WalkerExpander<TFilter = unknown, TItem = unknown> {
+  /**
+   * The prefix of the IDs of the nodes built by this expander. This is a
+   * single uppercase letter, other than N, P, L and E, which are used by
+   * the graph.
+   */
+  prefix: string;
+  /**
+   * The name of the expander, also used as the label of the edges linking
+   * the expanded node to its children.
+   */
+  name: string;
+  /**
+   * The type of the component used to edit the filter, if any.
+   */
+  filterComponent?: Type<WalkerExpanderFilterComponent<TFilter>>;
+  /**
+   * Check whether the specified node can be expanded by this expander.
+   *
+   * @param node The node.
+   * @returns True if the node can be expanded.
+   */
+  canExpand(node: GraphNode): boolean;
+  /**
+   * Create the filter used when first expanding the specified node. The
+   * filter must be serializable, as it is saved with the walker state.
+   *
+   * @param node The node to expand.
+   * @returns The filter.
+   */
+  createFilter(node: GraphNode): TFilter;
+  /**
+   * Load the items the specified node expands into.
+   *
+   * @param node The node to expand.
+   * @param filter The filter.
+   * @returns Observable with the page of items.
+   */
+  load(node: GraphNode, filter: TFilter): Observable<WalkerExpanderPage<TItem>>;
+  /**
+   * Build a node from the specified item.
+   *
+   * @param item The item.
+   * @param origin The expanded node.
+   * @returns The node.
+   */
+  buildNode(item: TItem, origin: GraphNode): WalkerExpanderNode;
+}
+
+/**
+ * An expansion of a walker node by an expander. Expansions are stored in
+ * the expansions of the node data, keyed by the expander prefix.
+ */
+export interface WalkerExpansion<TFilter = unknown> {
+  filter: TFilter;
+  total: number;
+}
+
+/**
+ * Injection token for the walker expanders. Provide each expander with
+ * multi set to true.
+ */
+export const WALKER_EXPANDERS = new InjectionToken<WalkerExpander[]>(
+  'WALKER_EXPANDERS'
+);
+
+// the prefixes used by the graph nodes and edges
+const RESERVED_PREFIXES = 'NPLE';
+
+/**
+ * Check whether the specified prefix can be used by a walker expander.
+ *
+ * @param prefix The prefix.
+ * @returns True if valid.
+ */
+export function isValidWalkerExpanderPrefix(prefix: string): boolean {
+  return /^[A-Z]$/.test(prefix) && !RESERVED_PREFIXES.includes(prefix);
+}
+
+/**
+ * Check whether the specified walker node ID was built by an expander.
+ *
+ * @param id The node ID.
+ * @returns True if the ID belongs to an expander node.
+ */
+export function isWalkerExpanderId(id: string): boolean {
+  return isValidWalkerExpanderPrefix(id.charAt(0));
+}
+
+/**
+ * Build the ID of a node built by a walker expander.
+ *
+ * @param prefix The expander prefix.
+ * @param key The node key.
+ * @returns The node ID.
+ * @throws Error if the key is empty or includes underscores.
+ */
+export function buildWalkerExpanderId(prefix: string, key: string): string {
+  if (!key || key.includes('_')) {
+    throw new Error(`Invalid key for walker expander ${prefix}: "${key}"`);
+  }
+  return prefix + key;
+}
@@ -0,0 +1,155 @@
+import { Observable, of } from 'rxjs';
+
+import { GraphService, TripleFilter } from '@myrmidon/cadmus-api';
+
+import {
+  WalkerGraphCache,
+  WalkerGraphCacheOptions,
+} from './walker-graph-cache';
+
+describe('WalkerGraphCache', () => {
+  let calls: string[];
+  let service: GraphService;
+
+  const createCache = (options?: WalkerGraphCacheOptions) =>
+    new WalkerGraphCache(service, options);
+
+  // get the value of a synchronous observable
+  const read = <T>(value$: Observable<T>): T => {
+    let value: T | undefined;
+    value$.subscribe((v) => (value = v));
+    return value!;
+  };
+
+  beforeEach(() => {
+    calls = [];
+    service = {
+      getNode: (id: number) => {
+        calls.push('node' + id);
+        return of({ id: id, uri: 'x:n' + id, label: 'n' + id });
+      },
+      getTripleGroups: (
+        pageNumber: number,
+        pageSize: number,
+        filter: TripleFilter
+      ) => {
+        calls.push('groups' + (filter.subjectId || filter.objectId));
+        return of({
+          pageNumber: pageNumber,
+          pageSize: pageSize,
+          pageCount: 0,
+          total: 0,
+          items: [],
+        });
+      },
+    } as unknown as GraphService;
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('should cache responses', () => {
+    const cache = createCache();
+    const a = read(cache.getNode(1));
+    const b = read(cache.getNode(1));
+    expect(b).toBe(a);
+    expect(calls).toEqual(['node1']);
+    expect(cache.size).toBe(1);
+  });
+
+  it('should key responses by method and arguments', () => {
+    const cache = createCache();
+    read(cache.getNode(1));
+    read(cache.getNode(2));
+    read(cache.getTripleGroups(1, 10, { subjectId: 1 }));
+    read(cache.getTripleGroups(2, 10, { subjectId: 1 }));
+    expect(calls).toEqual(['node1', 'node2', 'groups1', 'groups1']);
+    expect(cache.size).toBe(4);
+  });
+
+  it('should get the same key for filters with different key order', () => {
+    const cache = createCache();
+    read(
+      cache.getTripleGroups(1, 10, {
+        subjectId: 1,
+        predicateIds: [3],
+      } as TripleFilter)
+    );
+    read(
+      cache.getTripleGroups(1, 10, {
+        predicateIds: [3],
+        subjectId: 1,
+      } as TripleFilter)
+    );
+    expect(calls).toEqual(['groups1']);
+  });
+
+  it('should evict the least recently used responses', () => {
+    const cache = createCache({ maxEntries: 2 });
+    read(cache.getNode(1));
+    read(cache.getNode(2));
+    // use 1, so that 2 is the least recently used
+    read(cache.getNode(1));
+    read(cache.getNode(3));
+    expect(cache.size).toBe(2);
+    calls = [];
+    read(cache.getNode(1));
+    read(cache.getNode(3));
+    read(cache.getNode(2));
+    expect(calls).toEqual(['node2']);
+  });
+
+  it('should expire responses after their time to live', () => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2024, 0, 1));
+    const cache = createCache({ ttl: 1000 });
+    read(cache.getNode(1));
+    jasmine.clock().tick(999);
+    read(cache.getNode(1));
+    expect(calls).toEqual(['node1']);
+    jasmine.clock().tick(2);
+    read(cache.getNode(1));
+    expect(calls).toEqual(['node1', 'node1']);
+  });
+
+  it('should never expire responses with a time to live of 0', () => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2024, 0, 1));
+    const cache = createCache({ ttl: 0 });
+    read(cache.getNode(1));
+    jasmine.clock().tick(24 * 3600 * 1000);
+    read(cache.getNode(1));
+    expect(calls).toEqual(['node1']);
+  });
+
+  it('should invalidate the responses referring to a node', () => {
+    const cache = createCache();
+    read(cache.getNode(1));
+    read(cache.getTripleGroups(1, 10, { subjectId: 1 }));
+    read(cache.getTripleGroups(1, 10, { objectId: 1 }));
+    read(cache.getTripleGroups(1, 10, { subjectId: 2 }));
+    expect(cache.invalidate(1)).toBe(3);
+    expect(cache.size).toBe(1);
+    calls = [];
+    read(cache.getNode(1));
+    read(cache.getTripleGroups(1, 10, { subjectId: 2 }));
+    expect(calls).toEqual(['node1']);
+  });
+
+  it('should not cache when disabled', () => {
+    const cache = createCache({ enabled: false });
+    read(cache.getNode(1));
+    read(cache.getNode(1));
+    expect(calls).toEqual(['node1', 'node1']);
+    expect(cache.size).toBe(0);
+  });
+
+  it('should clear all the responses', () => {
+    const cache = createCache();
+    read(cache.getNode(1));
+    read(cache.getNode(2));
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,239 @@
+import { Observable, of } from 'rxjs';
+import { tap } from 'rxjs/operators';
+
+import { DataPage } from '@myrmidon/ng-tools';
+
+import {
+  GraphService,
+  LinkedLiteralFilter,
+  LinkedNodeFilter,
+  TripleFilter,
+  TripleGroup,
+  UriNode,
+  UriTriple,
+} from '@myrmidon/cadmus-api';
+
+/**
+ * Options for the walker graph cache.
+ */
+export interface WalkerGraphCacheOptions {
+  /**
+   * The maximum number of cached responses. When exceeded, the least
+   * recently used responses are evicted. Default is 200.
+   */
+  maxEntries?: number;
+  /**
+   * The time to live of each cached response, in milliseconds.
+   * Default is 300000 (5 minutes). Use 0 for no expiration.
+   */
+  ttl?: number;
+  /**
+   * False to disable the cache. Default is true.
+   */
+  enabled?: boolean;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expires: number;
+  // the IDs of the nodes the response refers to
+  nodeIds: number[];
+}
+
+// the filter properties holding the IDs of the nodes a response refers to
+const NODE_ID_KEYS = ['id', 'subjectId', 'objectId', 'otherNodeId'];
+
+/**
+ * Client-side cache for the graph service responses used by the walker.
+ * Responses are keyed by method and arguments, evicted by LRU and TTL, and
+ * can be invalidated for a specific node.
+ */
+export class WalkerGraphCache {
+  private readonly _entries: Map<string, CacheEntry>;
+
+  /**
+   * The maximum number of cached responses.
+   */
+  public maxEntries: number;
+  /**
+   * The time to live of each cached response, in milliseconds
+   * (0=no expiration).
+   */
+  public ttl: number;
+  /**
+   * True if the cache is enabled.
+   */
+  public enabled: boolean;
+
+  /**
+   * The number of cached responses.
+   */
+  public get size(): number {
+    return this._entries.size;
+  }
+
+  constructor(
+    private _graphService: GraphService,
+    options?: WalkerGraphCacheOptions
+  ) {
+    this._entries = new Map<string, CacheEntry>();
+    this.maxEntries = options?.maxEntries ?? 200;
+    this.ttl = options?.ttl ?? 300000;
+    this.enabled = options?.enabled ?? true;
+  }
+
+  private buildKey(method: string, args: unknown[]): string {
+    // sort keys so that equal filters get the same key
+    return (
+      method +
+      JSON.stringify(args, (_, value) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+          ? Object.keys(value)
+              .sort()
+              .reduce((o: Record<string, unknown>, k) => {
+                o[k] = value[k];
+                return o;
+              }, {})
+          : value
+      )
+    );
+  }
+
+  private getNodeIds(args: unknown[]): number[] {
+    const ids: number[] = [];
+    for (const arg of args) {
+      if (typeof arg !== 'object' || !arg) {
+        continue;
+      }
+      const filter = arg as Record<string, unknown>;
+      NODE_ID_KEYS.forEach((k) => {
+        const id = filter[k];
+        if (typeof id === 'number' && id) {
+          ids.push(id);
+        }
+      });
+    }
+    return ids;
+  }
+
+  private get<T>(
+    method: string,
+    args: unknown[],
+    request: () => Observable<T>
+  ): Observable<T> {
+    if (!this.enabled) {
+      return request();
+    }
+    const key = this.buildKey(method, args);
+    const entry = this._entries.get(key);
+    if (entry) {
+      this._entries.delete(key);
+      if (!entry.expires || entry.expires > Date.now()) {
+        // move to the most recently used position
+        this._entries.set(key, entry);
+        return of(entry.value as T);
+      }
+    }
+    return request().pipe(
+      tap((value) => {
+        this._entries.set(key, {
+          value: value,
+          expires: this.ttl ? Date.now() + this.ttl : 0,
+          nodeIds: this.getNodeIds(args),
+        });
+        // evict the least recently used entries
+        while (this._entries.size > this.maxEntries) {
+          this._entries.delete(this._entries.keys().next().value);
+        }
+      })
+    );
+  }
+
+  /**
+   * Get the node with the specified ID.
+   *
+   * @param id The node ID.
+   * @returns Observable with the node.
+   */
+  public getNode(id: number): Observable<UriNode> {
+    return this.get('getNode', [{ id }], () => this._graphService.getNode(id));
+  }
+
+  /**
+   * Get the specified page of triple groups.
+   *
+   * @param pageNumber The page number.
+   * @param pageSize The page size.
+   * @param filter The filter.
+   * @returns Observable with the page.
+   */
+  public getTripleGroups(
+    pageNumber: number,
+    pageSize: number,
+    filter: TripleFilter
+  ): Observable<DataPage<TripleGroup>> {
+    return this.get('getTripleGroups', [pageNumber, pageSize, filter], () =>
+      this._graphService.getTripleGroups(pageNumber, pageSize, filter)
+    );
+  }
+
+  /**
+   * Get the specified page of nodes linked to a node.
+   *
+   * @param pageNumber The page number.
+   * @param pageSize The page size.
+   * @param filter The filter.
+   * @returns Observable with the page.
+   */
+  public getLinkedNodes(
+    pageNumber: number,
+    pageSize: number,
+    filter: LinkedNodeFilter
+  ): Observable<DataPage<UriNode>> {
+    return this.get('getLinkedNodes', [pageNumber, pageSize, filter], () =>
+      this._graphService.getLinkedNodes(pageNumber, pageSize, filter)
+    );
+  }
+
+  /**
+   * Get the specified page of literals linked to a node.
+   *
+   * @param pageNumber The page number.
+   * @param pageSize The page size.
+   * @param filter The filter.
+   * @returns Observable with the page.
+   */
+  public getLinkedLiterals(
+    pageNumber: number,
+    pageSize: number,
+    filter: LinkedLiteralFilter
+  ): Observable<DataPage<UriTriple>> {
+    return this.get('getLinkedLiterals', [pageNumber, pageSize, filter], () =>
+      this._graphService.getLinkedLiterals(pageNumber, pageSize, filter)
+    );
+  }
+
+  /**
+   * Remove all the cached responses referring to the specified node.
+   *
+   * @param nodeId The node ID.
+   * @returns The number of removed responses.
+   */
+  public invalidate(nodeId: number): number {
+    let count = 0;
+    for (const [key, entry] of Array.from(this._entries.entries())) {
+      if (entry.nodeIds.includes(nodeId)) {
+        this._entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Remove all the cached responses.
+   */
+  public clear(): void {
+    this._entries.clear();
+  }
+}
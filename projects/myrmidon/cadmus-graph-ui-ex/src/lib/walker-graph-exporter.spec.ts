@@ -0,0 +1,196 @@
+import { Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+
+import { WalkerGraphExporter } from './walker-graph-exporter';
+import { WalkerStyler } from './walker-styler';
+
+// Petrarca loves Laura and is labeled Petrarch
+const NODES: GraphNode[] = [
+  {
+    id: 'N1',
+    label: 'Petrarca "P" & <co>',
+    data: { uri: 'x:petrarca', sourceType: 0, customColor: '#FF8000' },
+  },
+  { id: 'P12N1', label: '1', data: { uri: 'x:loves' } },
+  {
+    id: 'N2',
+    label: 'Laura',
+    data: { uri: 'x:laura', sourceType: 0, tag: "it's", customColor: 'red' },
+  },
+  { id: 'P14N1', label: '1', data: { uri: 'rdfs:label' } },
+  {
+    id: 'L3',
+    label: 'Petrarch',
+    data: { value: 'a\\b\nc "d"', language: 'en' },
+  },
+];
+
+const EDGES: Edge[] = [
+  ['N1', 'P12N1'],
+  ['P12N1', 'N2'],
+  ['N1', 'P14N1'],
+  ['P14N1', 'L3'],
+].map(([s, t]) => ({ id: `E${s}_${t}`, source: s, target: t }));
+
+describe('WalkerGraphExporter', () => {
+  describe('GraphML', () => {
+    it('should export nodes with their escaped data', () => {
+      const xml = new WalkerGraphExporter().toGraphMl(NODES, EDGES);
+      expect(xml).toContain(
+        [
+          '    <node id="N1">',
+          '      <data key="kind">N</data>',
+          '      <data key="label">Petrarca &quot;P&quot; &amp; &lt;co&gt;</data>',
+          '      <data key="color">#FF8000</data>',
+          '      <data key="uri">x:petrarca</data>',
+          '      <data key="sourceType">0</data>',
+          '    </node>',
+        ].join('\n')
+      );
+      expect(xml).toContain(
+        [
+          '    <node id="P12N1">',
+          '      <data key="kind">P</data>',
+          '      <data key="label">x:loves=1</data>',
+          '      <data key="uri">x:loves</data>',
+          '    </node>',
+        ].join('\n')
+      );
+      expect(xml).toContain('<data key="tag">it&apos;s</data>');
+      expect(xml.match(/<node /g)?.length).toBe(5);
+    });
+
+    it('should export edges', () => {
+      const xml = new WalkerGraphExporter().toGraphMl(NODES, EDGES);
+      expect(xml).toContain(
+        '    <edge id="EN1_P12N1" source="N1" target="P12N1">\n    </edge>'
+      );
+      expect(xml.match(/<edge /g)?.length).toBe(4);
+      expect(xml.endsWith('  </graph>\n</graphml>')).toBeTrue();
+    });
+
+    it('should collapse property groups into edges', () => {
+      const xml = new WalkerGraphExporter({
+        collapseProperties: true,
+      }).toGraphMl(NODES, EDGES);
+      expect(xml).not.toContain('<node id="P');
+      expect(xml.match(/<edge /g)?.length).toBe(2);
+      expect(xml).toContain(
+        [
+          '    <edge id="EN1_P12N1_N2" source="N1" target="N2">',
+          '      <data key="elabel">x:loves</data>',
+          '    </edge>',
+        ].join('\n')
+      );
+      expect(xml).toContain('<edge id="EN1_P14N1_L3" source="N1" target="L3">');
+    });
+  });
+
+  describe('GEXF', () => {
+    it('should export nodes with their attributes and colors', () => {
+      const xml = new WalkerGraphExporter().toGexf(NODES, EDGES);
+      expect(xml).toContain(
+        [
+          '      <node id="N1" label="Petrarca &quot;P&quot; &amp; &lt;co&gt;">',
+          '        <attvalues>',
+          '          <attvalue for="0" value="N"/>',
+          '          <attvalue for="1" value="x:petrarca"/>',
+          '          <attvalue for="2" value="0"/>',
+          '        </attvalues>',
+          '        <viz:color r="255" g="128" b="0"/>',
+          '      </node>',
+        ].join('\n')
+      );
+      expect(xml).toContain('<attvalue for="5" value="it&apos;s"/>');
+      expect(xml).toContain(
+        '<attvalue for="6" value="a\\b\nc &quot;d&quot;"/>'
+      );
+    });
+
+    it('should not export colors which are not RGB hex', () => {
+      const xml = new WalkerGraphExporter().toGexf(NODES, EDGES);
+      const laura = xml.substring(
+        xml.indexOf('<node id="N2"'),
+        xml.indexOf('<node id="P14N1"')
+      );
+      expect(laura).not.toContain('viz:color');
+      expect(xml.match(/<viz:color /g)?.length).toBe(1);
+    });
+
+    it('should get colors from the styler', () => {
+      const xml = new WalkerGraphExporter({
+        styler: new WalkerStyler(),
+      }).toGexf(NODES, EDGES);
+      const prop = xml.substring(
+        xml.indexOf('<node id="P12N1"'),
+        xml.indexOf('<node id="N2"')
+      );
+      expect(prop).toContain('<viz:color r="255" g="86" b="25"/>');
+      expect(xml).toContain('<viz:color r="255" g="128" b="0"/>');
+    });
+
+    it('should export edges', () => {
+      let xml = new WalkerGraphExporter().toGexf(NODES, EDGES);
+      expect(xml).toContain(
+        '<edge id="EP12N1_N2" source="P12N1" target="N2" label=""/>'
+      );
+      xml = new WalkerGraphExporter({ collapseProperties: true }).toGexf(
+        NODES,
+        EDGES
+      );
+      expect(xml).toContain(
+        '<edge id="EN1_P12N1_N2" source="N1" target="N2" label="x:loves"/>'
+      );
+      expect(xml.match(/<edge /g)?.length).toBe(2);
+    });
+  });
+
+  describe('DOT', () => {
+    it('should export nodes and edges', () => {
+      expect(new WalkerGraphExporter().toDot(NODES, EDGES)).toBe(
+        [
+          'digraph walker {',
+          '  node [style=filled, fontname="Helvetica"];',
+          '  edge [fontname="Helvetica", fontsize=10];',
+          '  "N1" [label="Petrarca \\"P\\" & <co>", shape=box, kind="N", fillcolor="#FF8000", uri="x:petrarca", sourceType="0"];',
+          '  "P12N1" [label="x:loves=1", shape=ellipse, kind="P", uri="x:loves"];',
+          '  "N2" [label="Laura", shape=box, kind="N", fillcolor="red", uri="x:laura", sourceType="0", tag="it\'s"];',
+          '  "P14N1" [label="rdfs:label=1", shape=ellipse, kind="P", uri="rdfs:label"];',
+          '  "L3" [label="Petrarch", shape=note, kind="L", value="a\\\\b\\nc \\"d\\"", language="en"];',
+          '  "N1" -> "P12N1";',
+          '  "P12N1" -> "N2";',
+          '  "N1" -> "P14N1";',
+          '  "P14N1" -> "L3";',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    it('should collapse property groups into labeled edges', () => {
+      const dot = new WalkerGraphExporter({
+        collapseProperties: true,
+      }).toDot(NODES, EDGES);
+      expect(dot).not.toContain('"P12N1"');
+      expect(dot).not.toContain('"P14N1"');
+      expect(dot).toContain(
+        [
+          '  "N1" -> "N2" [label="x:loves"];',
+          '  "N1" -> "L3" [label="rdfs:label"];',
+          '}',
+        ].join('\n')
+      );
+    });
+  });
+
+  it('should export in the specified format', () => {
+    const exporter = new WalkerGraphExporter();
+    expect(exporter.export(NODES, EDGES, 'graphml')).toBe(
+      exporter.toGraphMl(NODES, EDGES)
+    );
+    expect(exporter.export(NODES, EDGES, 'gexf')).toBe(
+      exporter.toGexf(NODES, EDGES)
+    );
+    expect(exporter.export(NODES, EDGES, 'dot')).toBe(
+      exporter.toDot(NODES, EDGES)
+    );
+  });
+});
@@ -0,0 +1,363 @@
+import { Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+
+import { getWalkerTriples } from './walker-triples';
+import { WalkerStyler } from './walker-styler';
+
+/**
+ * The graph interchange formats supported by the exporter.
+ */
+export type WalkerGraphFormat = 'graphml' | 'gexf' | 'dot';
+
+/**
+ * Options for the graph exporter.
+ */
+export interface WalkerGraphExportOptions {
+  /**
+   * True to collapse property group (P) nodes into direct edges between
+   * the nodes they connect, labeled with the property URI.
+   */
+  collapseProperties?: boolean;
+  /**
+   * The styler used to get the color of nodes. When not set, only nodes
+   * with a custom color (like roots) get a color.
+   */
+  styler?: WalkerStyler;
+}
+
+/**
+ * The MIME type and file extension for each graph format.
+ */
+export const WALKER_GRAPH_FORMAT_INFO: {
+  [key in WalkerGraphFormat]: { mimeType: string; extension: string };
+} = {
+  graphml: { mimeType: 'application/graphml+xml', extension: 'graphml' },
+  gexf: { mimeType: 'application/gexf+xml', extension: 'gexf' },
+  dot: { mimeType: 'text/vnd.graphviz', extension: 'gv' },
+};
+
+type AttrValue = string | number | boolean;
+
+interface ExportNode {
+  id: string;
+  kind: string;
+  label: string;
+  color?: string;
+  attrs: Record<string, AttrValue>;
+}
+
+interface ExportEdge {
+  id: string;
+  source: string;
+  target: string;
+  label: string;
+}
+
+interface ExportGraph {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+}
+
+// the data attributes exported for nodes, with their types
+const NODE_ATTRS: { [key: string]: 'string' | 'boolean' | 'double' } = {
+  uri: 'string',
+  sourceType: 'double',
+  isClass: 'boolean',
+  sid: 'string',
+  tag: 'string',
+  value: 'string',
+  type: 'string',
+  language: 'string',
+  number: 'double',
+};
+
+/**
+ * Exporter of the walker graph into graph interchange formats, i.e.
+ * GraphML, GEXF, and Graphviz DOT. Node kinds (N, P, L), colors, labels,
+ * and data attributes are preserved.
+ */
+export class WalkerGraphExporter {
+  private readonly _options: WalkerGraphExportOptions;
+
+  constructor(options?: WalkerGraphExportOptions) {
+    this._options = options || {};
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private escapeDot(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n');
+  }
+
+  private buildNode(node: GraphNode): ExportNode {
+    const kind = node.id.charAt(0);
+    const label =
+      kind === 'P' && node.data?.uri
+        ? `${node.data.uri}=${node.label}`
+        : node.label || node.id;
+    const attrs: Record<string, AttrValue> = {};
+    Object.keys(NODE_ATTRS).forEach((key) => {
+      const value = node.data ? node.data[key] : undefined;
+      if (value !== undefined && value !== null && value !== '') {
+        attrs[key] = value;
+      }
+    });
+    return {
+      id: node.id,
+      kind: kind,
+      label: label,
+      color: this._options.styler
+        ? this._options.styler.getNodeStyle(node).fill
+        : node.data?.customColor,
+      attrs: attrs,
+    };
+  }
+
+  private buildGraph(nodes: GraphNode[], edges: Edge[]): ExportGraph {
+    if (!this._options.collapseProperties) {
+      return {
+        nodes: nodes.map((n) => this.buildNode(n)),
+        edges: edges.map((e) => ({
+          id: e.id!,
+          source: e.source,
+          target: e.target,
+          label: e.label || '',
+        })),
+      };
+    }
+    return {
+      nodes: nodes
+        .filter((n) => !n.id.startsWith('P'))
+        .map((n) => this.buildNode(n)),
+      edges: getWalkerTriples(nodes, edges).map((t) => ({
+        id: `E${t.subjectId}_${t.propertyId}_${t.objectId}`,
+        source: t.subjectId,
+        target: t.objectId,
+        label: t.predicate,
+      })),
+    };
+  }
+
+  /**
+   * Export the specified graph as GraphML.
+   *
+   * @param nodes The walker nodes.
+   * @param edges The walker edges.
+   * @returns GraphML text.
+   */
+  public toGraphMl(nodes: GraphNode[], edges: Edge[]): string {
+    const graph = this.buildGraph(nodes, edges);
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"' +
+        ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"' +
+        ' xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns' +
+        ' http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+      '  <key id="kind" for="node" attr.name="kind" attr.type="string"/>',
+      '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+      '  <key id="color" for="node" attr.name="color" attr.type="string"/>',
+    ];
+    Object.keys(NODE_ATTRS).forEach((key) => {
+      lines.push(
+        `  <key id="${key}" for="node" attr.name="${key}" attr.type="${NODE_ATTRS[key]}"/>`
+      );
+    });
+    lines.push(
+      '  <key id="elabel" for="edge" attr.name="label" attr.type="string"/>'
+    );
+    lines.push('  <graph id="walker" edgedefault="directed">');
+
+    for (const node of graph.nodes) {
+      lines.push(`    <node id="${this.escapeXml(node.id)}">`);
+      lines.push(`      <data key="kind">${node.kind}</data>`);
+      lines.push(
+        `      <data key="label">${this.escapeXml(node.label)}</data>`
+      );
+      if (node.color) {
+        lines.push(
+          `      <data key="color">${this.escapeXml(node.color)}</data>`
+        );
+      }
+      Object.keys(node.attrs).forEach((key) => {
+        lines.push(
+          `      <data key="${key}">${this.escapeXml(
+            String(node.attrs[key])
+          )}</data>`
+        );
+      });
+      lines.push('    </node>');
+    }
+    for (const edge of graph.edges) {
+      lines.push(
+        `    <edge id="${this.escapeXml(edge.id)}" source="${this.escapeXml(
+          edge.source
+        )}" target="${this.escapeXml(edge.target)}">`
+      );
+      if (edge.label) {
+        lines.push(
+          `      <data key="elabel">${this.escapeXml(edge.label)}</data>`
+        );
+      }
+      lines.push('    </edge>');
+    }
+    lines.push('  </graph>');
+    lines.push('</graphml>');
+    return lines.join('\n');
+  }
+
+  private parseColor(color: string): [number, number, number] | null {
+    const m = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+    return m
+      ? [parseInt(m[1], 16), parseInt(m[2], 16), parseInt(m[3], 16)]
+      : null;
+  }
+
+  /**
+   * Export the specified graph as GEXF.
+   *
+   * @param nodes The walker nodes.
+   * @param edges The walker edges.
+   * @returns GEXF text.
+   */
+  public toGexf(nodes: GraphNode[], edges: Edge[]): string {
+    const graph = this.buildGraph(nodes, edges);
+    const attrKeys = ['kind', ...Object.keys(NODE_ATTRS)];
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+      '  <graph defaultedgetype="directed" mode="static">',
+      '    <attributes class="node">',
+    ];
+    attrKeys.forEach((key, i) => {
+      lines.push(
+        `      <attribute id="${i}" title="${key}" type="${
+          key === 'kind' ? 'string' : NODE_ATTRS[key]
+        }"/>`
+      );
+    });
+    lines.push('    </attributes>');
+
+    lines.push('    <nodes>');
+    for (const node of graph.nodes) {
+      lines.push(
+        `      <node id="${this.escapeXml(node.id)}" label="${this.escapeXml(
+          node.label
+        )}">`
+      );
+      lines.push('        <attvalues>');
+      attrKeys.forEach((key, i) => {
+        const value = key === 'kind' ? node.kind : node.attrs[key];
+        if (value !== undefined) {
+          lines.push(
+            `          <attvalue for="${i}" value="${this.escapeXml(
+              String(value)
+            )}"/>`
+          );
+        }
+      });
+      lines.push('        </attvalues>');
+      const rgb = node.color ? this.parseColor(node.color) : null;
+      if (rgb) {
+        lines.push(
+          `        <viz:color r="${rgb[0]}" g="${rgb[1]}" b="${rgb[2]}"/>`
+        );
+      }
+      lines.push('      </node>');
+    }
+    lines.push('    </nodes>');
+
+    lines.push('    <edges>');
+    for (const edge of graph.edges) {
+      lines.push(
+        `      <edge id="${this.escapeXml(edge.id)}" source="${this.escapeXml(
+          edge.source
+        )}" target="${this.escapeXml(edge.target)}" label="${this.escapeXml(
+          edge.label
+        )}"/>`
+      );
+    }
+    lines.push('    </edges>');
+    lines.push('  </graph>');
+    lines.push('</gexf>');
+    return lines.join('\n');
+  }
+
+  /**
+   * Export the specified graph as Graphviz DOT.
+   *
+   * @param nodes The walker nodes.
+   * @param edges The walker edges.
+   * @returns DOT text.
+   */
+  public toDot(nodes: GraphNode[], edges: Edge[]): string {
+    const graph = this.buildGraph(nodes, edges);
+    const shapes: Record<string, string> = {
+      N: 'box',
+      P: 'ellipse',
+      L: 'note',
+    };
+    const lines: string[] = [
+      'digraph walker {',
+      '  node [style=filled, fontname="Helvetica"];',
+      '  edge [fontname="Helvetica", fontsize=10];',
+    ];
+    for (const node of graph.nodes) {
+      const attrs = [
+        `label="${this.escapeDot(node.label)}"`,
+        `shape=${shapes[node.kind] || 'box'}`,
+        `kind="${node.kind}"`,
+      ];
+      if (node.color) {
+        attrs.push(`fillcolor="${this.escapeDot(node.color)}"`);
+      }
+      Object.keys(node.attrs).forEach((key) => {
+        attrs.push(`${key}="${this.escapeDot(String(node.attrs[key]))}"`);
+      });
+      lines.push(`  "${this.escapeDot(node.id)}" [${attrs.join(', ')}];`);
+    }
+    for (const edge of graph.edges) {
+      const label = edge.label
+        ? ` [label="${this.escapeDot(edge.label)}"]`
+        : '';
+      lines.push(
+        `  "${this.escapeDot(edge.source)}" -> "${this.escapeDot(
+          edge.target
+        )}"${label};`
+      );
+    }
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Export the specified graph in the specified format.
+   *
+   * @param nodes The walker nodes.
+   * @param edges The walker edges.
+   * @param format The graph format.
+   * @returns The serialized graph.
+   */
+  public export(
+    nodes: GraphNode[],
+    edges: Edge[],
+    format: WalkerGraphFormat
+  ): string {
+    switch (format) {
+      case 'gexf':
+        return this.toGexf(nodes, edges);
+      case 'dot':
+        return this.toDot(nodes, edges);
+      default:
+        return this.toGraphMl(nodes, edges);
+    }
+  }
+}
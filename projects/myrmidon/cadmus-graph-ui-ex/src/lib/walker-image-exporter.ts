@@ -0,0 +1,190 @@
+/**
+ * Options for exporting the graph view as an image.
+ */
+export interface WalkerImageOptions {
+  /**
+   * The extent of the graph to capture: either the full graph, or just
+   * the portion currently visible in the viewport. Default is full.
+   */
+  extent?: 'full' | 'viewport';
+  /**
+   * The padding around the graph when capturing its full extent.
+   * Default is 20.
+   */
+  padding?: number;
+  /**
+   * The background color. Default is white.
+   */
+  background?: string;
+}
+
+/**
+ * The result of rendering the graph view as a standalone SVG.
+ */
+export interface WalkerSvgImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// the style properties inlined into the exported SVG elements
+const INLINED_STYLES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'text-anchor',
+  'dominant-baseline',
+  'alignment-baseline',
+  'visibility',
+  'display',
+];
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Exporter of the graph view rendered by ngx-graph into SVG or PNG images.
+ * The SVG is standalone, with inlined styles and the arrow markers defined
+ * in the graph.
+ */
+export class WalkerImageExporter {
+  /**
+   * Find the ngx-graph root SVG element inside the specified container.
+   *
+   * @param container The element containing the graph.
+   * @returns The SVG element or null if not found.
+   */
+  public static findGraphSvg(container: HTMLElement): SVGSVGElement | null {
+    return (container.querySelector('svg.ngx-graph') ||
+      container.querySelector('svg')) as SVGSVGElement | null;
+  }
+
+  private inlineStyles(source: Element, target: Element): void {
+    const sources = [source, ...Array.from(source.querySelectorAll('*'))];
+    const targets = [target, ...Array.from(target.querySelectorAll('*'))];
+    for (let i = 0; i < sources.length && i < targets.length; i++) {
+      const computed = window.getComputedStyle(sources[i]);
+      const style = INLINED_STYLES.map((p) => {
+        const value = computed.getPropertyValue(p);
+        return value ? `${p}:${value}` : '';
+      })
+        .filter((s) => s)
+        .join(';');
+      if (style) {
+        targets[i].setAttribute('style', style);
+      }
+    }
+  }
+
+  /**
+   * Render the graph view as a standalone SVG document.
+   *
+   * @param svg The ngx-graph root SVG element.
+   * @param options The options.
+   * @returns The SVG code with its size.
+   */
+  public toSvg(
+    svg: SVGSVGElement,
+    options?: WalkerImageOptions
+  ): WalkerSvgImage {
+    const padding = options?.padding ?? 20;
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    // styles must be inlined before removing anything from the clone,
+    // as elements are matched by their position
+    this.inlineStyles(svg, clone);
+
+    // remove interaction-only elements
+    clone
+      .querySelectorAll('.minimap, .panning-rect')
+      .forEach((e) => e.remove());
+
+    let width: number;
+    let height: number;
+    const graph = svg.querySelector('g.graph') as SVGGElement | null;
+    const graphClone = clone.querySelector('g.graph') as SVGGElement | null;
+
+    if (options?.extent === 'viewport' || !graph || !graphClone) {
+      const rect = svg.getBoundingClientRect();
+      width = Math.ceil(rect.width);
+      height = Math.ceil(rect.height);
+    } else {
+      // full extent: reset pan and zoom, and fit the graph bounding box
+      const box = graph.getBBox();
+      width = Math.ceil(box.width + padding * 2);
+      height = Math.ceil(box.height + padding * 2);
+      graphClone.setAttribute(
+        'transform',
+        `translate(${padding - box.x}, ${padding - box.y})`
+      );
+    }
+
+    clone.setAttribute('xmlns', SVG_NS);
+    clone.setAttribute('width', width.toString());
+    clone.setAttribute('height', height.toString());
+    clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+    // background
+    const bg = document.createElementNS(SVG_NS, 'rect');
+    bg.setAttribute('width', '100%');
+    bg.setAttribute('height', '100%');
+    bg.setAttribute('fill', options?.background || '#ffffff');
+    clone.insertBefore(bg, clone.firstChild);
+
+    return {
+      svg:
+        '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        new XMLSerializer().serializeToString(clone),
+      width: width,
+      height: height,
+    };
+  }
+
+  /**
+   * Render the graph view as a PNG image.
+   *
+   * @param svg The ngx-graph root SVG element.
+   * @param scale The scale factor for the image resolution (e.g. 2 for
+   * a double resolution image).
+   * @param options The options.
+   * @returns Promise with the PNG blob.
+   */
+  public toPng(
+    svg: SVGSVGElement,
+    scale = 1,
+    options?: WalkerImageOptions
+  ): Promise<Blob> {
+    const image = this.toSvg(svg, options);
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(image.width * scale);
+        canvas.height = Math.ceil(image.height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          reject(new Error('Canvas not supported'));
+          return;
+        }
+        ctx.scale(scale, scale);
+        ctx.drawImage(img, 0, 0, image.width, image.height);
+        canvas.toBlob((blob) => {
+          if (blob) {
+            resolve(blob);
+          } else {
+            reject(new Error('Error rendering PNG image'));
+          }
+        }, 'image/png');
+      };
+      img.onerror = () => reject(new Error('Error loading SVG image'));
+      img.src =
+        'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(image.svg);
+    });
+  }
+}
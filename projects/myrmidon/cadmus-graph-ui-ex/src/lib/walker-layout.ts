@@ -0,0 +1,145 @@
+import { Observable } from 'rxjs';
+import {
+  ColaForceDirectedLayout,
+  D3ForceDirectedLayout,
+  DagreClusterLayout,
+  Edge,
+  Graph,
+  Layout,
+  Node as GraphNode,
+} from '@swimlane/ngx-graph';
+
+/**
+ * The layout of the walker graph.
+ * - dagre: hierarchical layout.
+ * - d3ForceDirected: D3 force-directed layout.
+ * - colaForceDirected: WebCola force-directed layout (the default).
+ */
+export type WalkerLayoutName =
+  | 'dagre'
+  | 'd3ForceDirected'
+  | 'colaForceDirected';
+
+/**
+ * The position of a node in the walker graph.
+ */
+export interface WalkerNodePosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * A node as seen by the force layouts, which copy its coordinates and
+ * fixed flags into their simulation nodes.
+ */
+type ForceLayoutNode = GraphNode & {
+  x?: number;
+  y?: number;
+  fx?: number;
+  fy?: number;
+  fixed?: number;
+};
+
+/**
+ * A store for the positions set by users for walker nodes, keyed by node
+ * ID. This is implemented by GraphWalker.
+ */
+export interface WalkerPositionStore {
+  getNodePosition(id: string): WalkerNodePosition | undefined;
+  setNodePosition(id: string, position: WalkerNodePosition | null): void;
+}
+
+/**
+ * Layout for the walker graph. This wraps one of the ngx-graph layouts,
+ * keeping the nodes dragged by users at their position, which is saved
+ * in a position store and restored whenever the graph is laid out again.
+ */
+export class WalkerLayout implements Layout {
+  private readonly _inner: Layout;
+  private _dragged?: boolean;
+
+  constructor(
+    public readonly name: WalkerLayoutName,
+    private _store: WalkerPositionStore
+  ) {
+    switch (name) {
+      case 'dagre':
+        this._inner = new DagreClusterLayout();
+        break;
+      case 'd3ForceDirected':
+        this._inner = new D3ForceDirectedLayout();
+        break;
+      default:
+        this._inner = new ColaForceDirectedLayout();
+        break;
+    }
+  }
+
+  private applyPositions(graph: Graph): Graph {
+    const moved = new Set<string>();
+    graph.nodes.forEach((n) => {
+      const p = this._store.getNodePosition(n.id);
+      if (p) {
+        n.position = { ...p };
+        moved.add(n.id);
+      }
+    });
+    if (moved.size) {
+      graph.edges
+        .filter((e) => moved.has(e.source) || moved.has(e.target))
+        .forEach((e) => this._inner.updateEdge(graph, e));
+    }
+    return graph;
+  }
+
+  private fixNodes(nodes: ForceLayoutNode[]): void {
+    // D3 keeps nodes with fx/fy still, and WebCola those with fixed set
+    nodes.forEach((n) => {
+      const p = this._store.getNodePosition(n.id);
+      if (p) {
+        n.x = n.fx = p.x;
+        n.y = n.fy = p.y;
+        n.fixed = 1;
+      } else {
+        delete n.fx;
+        delete n.fy;
+        delete n.fixed;
+      }
+    });
+  }
+
+  public run(graph: Graph): Graph | Observable<Graph> {
+    if (this.name === 'dagre') {
+      return this.applyPositions(this._inner.run(graph) as Graph);
+    }
+    this.fixNodes(graph.nodes);
+    return this._inner.run(graph);
+  }
+
+  public updateEdge(graph: Graph, edge: Edge): Graph | Observable<Graph> {
+    return this._inner.updateEdge(graph, edge);
+  }
+
+  public onDragStart(draggingNode: GraphNode, $event: MouseEvent): void {
+    this._dragged = false;
+    this._inner.onDragStart?.(draggingNode, $event);
+  }
+
+  public onDrag(draggingNode: GraphNode, $event: MouseEvent): void {
+    this._dragged = true;
+    this._inner.onDrag?.(draggingNode, $event);
+  }
+
+  public onDragEnd(draggingNode: GraphNode, $event: MouseEvent): void {
+    // save the position only when the node was actually dragged; the inner
+    // layout is not notified, so that force layouts keep the node fixed
+    if (!draggingNode?.position || !this._dragged) {
+      return;
+    }
+    this._dragged = false;
+    this._store.setNodePosition(draggingNode.id, {
+      x: draggingNode.position.x,
+      y: draggingNode.position.y,
+    });
+  }
+}
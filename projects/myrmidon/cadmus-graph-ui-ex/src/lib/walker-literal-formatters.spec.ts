@@ -0,0 +1,84 @@
+import {
+  formatWalkerLiteral,
+  truncateWalkerText,
+  WalkerLiteralFormatters,
+  WALKER_DEFAULT_LITERAL_FORMATTERS,
+} from './walker-literal-formatters';
+
+describe('truncateWalkerText', () => {
+  it('should normalize whitespaces', () => {
+    expect(truncateWalkerText('  a \n b\tc ', 0)).toBe('a b c');
+  });
+
+  it('should truncate long texts with an ellipsis', () => {
+    expect(truncateWalkerText('abcdef', 3)).toBe('abc…');
+    expect(truncateWalkerText('abc', 3)).toBe('abc');
+  });
+});
+
+describe('formatWalkerLiteral', () => {
+  it('should format untyped literals as strings', () => {
+    expect(formatWalkerLiteral({ value: 'Petrarca' }, 0)).toBe('Petrarca');
+  });
+
+  it('should add the language badge within the maximum length', () => {
+    expect(formatWalkerLiteral({ value: 'Petrarch', language: 'en' }, 0)).toBe(
+      'Petrarch @en'
+    );
+    expect(
+      formatWalkerLiteral({ value: 'Francesco Petrarca', language: 'it' }, 10)
+    ).toBe('France… @it');
+  });
+
+  it('should format numbers from their numeric value', () => {
+    expect(
+      formatWalkerLiteral({ value: '1304', type: 'xs:int', number: 1304 }, 0)
+    ).toBe((1304).toLocaleString());
+    expect(
+      formatWalkerLiteral({ value: '1234.5', type: 'xsd:decimal' }, 0)
+    ).toBe((1234.5).toLocaleString());
+  });
+
+  it('should keep invalid numbers as they are', () => {
+    expect(formatWalkerLiteral({ value: 'n/a', type: 'xsd:int' }, 0)).toBe(
+      'n/a'
+    );
+  });
+
+  it('should format booleans', () => {
+    const type = 'http://www.w3.org/2001/XMLSchema#boolean';
+    expect(formatWalkerLiteral({ value: 'true', type }, 0)).toBe('✔ true');
+    expect(formatWalkerLiteral({ value: '0', type }, 0)).toBe('✘ false');
+    expect(formatWalkerLiteral({ value: 'maybe', type }, 0)).toBe('maybe');
+  });
+
+  it('should format dates in UTC', () => {
+    expect(
+      formatWalkerLiteral({ value: '1304-07-20', type: 'xs:date' }, 0)
+    ).toBe(
+      new Date('1304-07-20').toLocaleDateString(undefined, { timeZone: 'UTC' })
+    );
+    expect(formatWalkerLiteral({ value: 'July', type: 'xs:date' }, 0)).toBe(
+      'July'
+    );
+  });
+
+  it('should format unknown datatypes as strings', () => {
+    expect(formatWalkerLiteral({ value: 'abc', type: 'x:custom' }, 2)).toBe(
+      'ab…'
+    );
+  });
+
+  it('should use the specified formatters', () => {
+    const formatters: WalkerLiteralFormatters = {
+      ...WALKER_DEFAULT_LITERAL_FORMATTERS,
+      'x:custom': (literal) => `<${literal.value}>`,
+    };
+    expect(
+      formatWalkerLiteral({ value: 'abc', type: 'x:custom' }, 0, formatters)
+    ).toBe('<abc>');
+    expect(
+      formatWalkerLiteral({ value: 'true', type: 'xsd:boolean' }, 0, formatters)
+    ).toBe('✔ true');
+  });
+});
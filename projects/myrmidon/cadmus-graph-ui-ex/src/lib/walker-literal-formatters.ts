@@ -0,0 +1,176 @@
+import { InjectionToken } from '@angular/core';
+
+/**
+ * A literal value to be formatted.
+ */
+export interface WalkerLiteral {
+  value: string;
+  type?: string;
+  language?: string;
+  number?: number;
+}
+
+/**
+ * A function formatting a literal into a label no longer than the
+ * specified maximum length (0=unlimited).
+ */
+export type WalkerLiteralFormatter = (
+  literal: WalkerLiteral,
+  maxLength: number
+) => string;
+
+/**
+ * A set of literal formatters, keyed by the datatype they handle.
+ */
+export type WalkerLiteralFormatters = { [key: string]: WalkerLiteralFormatter };
+
+const XSD_NAMESPACES = ['http://www.w3.org/2001/XMLSchema#', 'xsd:', 'xs:'];
+
+/**
+ * Truncate the specified text to the specified maximum length, after
+ * normalizing its whitespaces.
+ *
+ * @param text The text.
+ * @param maxLength The maximum length (0=unlimited).
+ * @returns The truncated text.
+ */
+export function truncateWalkerText(text: string, maxLength: number): string {
+  text = text.replace(/\s+/g, ' ').trim();
+  return maxLength && text.length > maxLength
+    ? text.substring(0, maxLength) + '\u2026'
+    : text;
+}
+
+function formatString(literal: WalkerLiteral, maxLength: number): string {
+  if (!literal.language) {
+    return truncateWalkerText(literal.value, maxLength);
+  }
+  const badge = ` @${literal.language}`;
+  return (
+    truncateWalkerText(
+      literal.value,
+      maxLength ? Math.max(1, maxLength - badge.length) : 0
+    ) + badge
+  );
+}
+
+function formatNumber(literal: WalkerLiteral, maxLength: number): string {
+  const n =
+    literal.number !== undefined && literal.number !== null
+      ? literal.number
+      : parseFloat(literal.value);
+  return isNaN(n)
+    ? truncateWalkerText(literal.value, maxLength)
+    : truncateWalkerText(n.toLocaleString(), maxLength);
+}
+
+function formatBoolean(literal: WalkerLiteral, maxLength: number): string {
+  switch (literal.value.trim()) {
+    case 'true':
+    case '1':
+      return '\u2714 true';
+    case 'false':
+    case '0':
+      return '\u2718 false';
+    default:
+      return truncateWalkerText(literal.value, maxLength);
+  }
+}
+
+function formatDate(literal: WalkerLiteral, maxLength: number): string {
+  // date-only values are parsed as UTC
+  const d = new Date(literal.value);
+  return isNaN(d.getTime())
+    ? truncateWalkerText(literal.value, maxLength)
+    : truncateWalkerText(
+        d.toLocaleDateString(undefined, { timeZone: 'UTC' }),
+        maxLength
+      );
+}
+
+function formatDateTime(literal: WalkerLiteral, maxLength: number): string {
+  const d = new Date(literal.value);
+  return isNaN(d.getTime())
+    ? truncateWalkerText(literal.value, maxLength)
+    : truncateWalkerText(d.toLocaleString(), maxLength);
+}
+
+function addXsdFormatters(
+  formatters: WalkerLiteralFormatters,
+  names: string[],
+  formatter: WalkerLiteralFormatter
+): void {
+  for (const ns of XSD_NAMESPACES) {
+    names.forEach((name) => (formatters[ns + name] = formatter));
+  }
+}
+
+function buildDefaultFormatters(): WalkerLiteralFormatters {
+  const formatters: WalkerLiteralFormatters = {};
+  addXsdFormatters(formatters, ['string', 'normalizedString'], formatString);
+  addXsdFormatters(
+    formatters,
+    [
+      'decimal',
+      'double',
+      'float',
+      'integer',
+      'int',
+      'long',
+      'short',
+      'byte',
+      'nonNegativeInteger',
+      'nonPositiveInteger',
+      'positiveInteger',
+      'negativeInteger',
+      'unsignedInt',
+      'unsignedLong',
+      'unsignedShort',
+      'unsignedByte',
+    ],
+    formatNumber
+  );
+  addXsdFormatters(formatters, ['boolean'], formatBoolean);
+  addXsdFormatters(formatters, ['date'], formatDate);
+  addXsdFormatters(formatters, ['dateTime', 'dateTimeStamp'], formatDateTime);
+  formatters['rdf:langString'] = formatString;
+  formatters['http://www.w3.org/1999/02/22-rdf-syntax-ns#langString'] =
+    formatString;
+  return formatters;
+}
+
+/**
+ * The default literal formatters, for the most common XSD datatypes,
+ * keyed by the datatype with its full URI or with the "xsd" or "xs"
+ * prefixes.
+ */
+export const WALKER_DEFAULT_LITERAL_FORMATTERS: WalkerLiteralFormatters =
+  buildDefaultFormatters();
+
+/**
+ * Injection token for custom literal formatters, keyed by the datatype
+ * they handle. These are added to the default formatters, and override
+ * them for the same datatype.
+ */
+export const WALKER_LITERAL_FORMATTERS =
+  new InjectionToken<WalkerLiteralFormatters>('WALKER_LITERAL_FORMATTERS');
+
+/**
+ * Format the specified literal using the formatter for its datatype.
+ * Literals without a datatype or with an unknown datatype are formatted
+ * as strings, with their language if any.
+ *
+ * @param literal The literal.
+ * @param maxLength The maximum length of the label (0=unlimited).
+ * @param formatters The formatters to use.
+ * @returns The formatted label.
+ */
+export function formatWalkerLiteral(
+  literal: WalkerLiteral,
+  maxLength: number,
+  formatters: WalkerLiteralFormatters = WALKER_DEFAULT_LITERAL_FORMATTERS
+): string {
+  const formatter =
+    (literal.type ? formatters[literal.type] : undefined) || formatString;
+  return formatter(literal, maxLength);
+}
@@ -0,0 +1,224 @@
+import { Observable, Subject } from 'rxjs';
+
+import {
+  WalkerMemoryGraphDataset,
+  WalkerMemoryGraphError,
+  WalkerMemoryGraphService,
+} from './walker-memory-graph';
+
+const DATASET: WalkerMemoryGraphDataset = {
+  nodes: [
+    { id: 1, uri: 'x:petrarca', label: 'Petrarca', sourceType: 0 },
+    { id: 2, uri: 'x:laura', label: 'Laura', sourceType: 0 },
+    { id: 3, uri: 'x:avignon', label: 'Avignon', sourceType: 0 },
+    { id: 4, uri: 'x:boccaccio', label: 'Boccaccio', sourceType: 0 },
+    // predicates
+    { id: 10, uri: 'rdf:type', sourceType: 0 },
+    { id: 11, uri: 'rdfs:subClassOf', sourceType: 0 },
+    { id: 12, uri: 'x:loves', sourceType: 0 },
+    { id: 13, uri: 'x:livedIn', sourceType: 0 },
+    { id: 14, uri: 'rdfs:label', sourceType: 0 },
+    { id: 15, uri: 'x:born', sourceType: 0 },
+    // classes
+    { id: 20, uri: 'x:poet', label: 'poet', isClass: true, sourceType: 0 },
+    { id: 21, uri: 'x:person', label: 'person', isClass: true, sourceType: 0 },
+    { id: 22, uri: 'x:place', label: 'place', isClass: true, sourceType: 0 },
+  ],
+  triples: [
+    { id: 1, subjectId: 1, predicateId: 10, objectId: 20 },
+    { id: 2, subjectId: 20, predicateId: 11, objectId: 21 },
+    { id: 3, subjectId: 2, predicateId: 10, objectId: 21 },
+    { id: 4, subjectId: 3, predicateId: 10, objectId: 22 },
+    { id: 5, subjectId: 1, predicateId: 12, objectId: 2 },
+    { id: 6, subjectId: 1, predicateId: 13, objectId: 3 },
+    { id: 7, subjectId: 4, predicateId: 13, objectId: 3 },
+    {
+      id: 8,
+      subjectId: 1,
+      predicateId: 14,
+      objectLiteral: 'Francesco Petrarca',
+      literalLanguage: 'it',
+    },
+    {
+      id: 9,
+      subjectId: 1,
+      predicateId: 14,
+      objectLiteral: 'Petrarch',
+      literalLanguage: 'en',
+    },
+    {
+      id: 10,
+      subjectId: 4,
+      predicateId: 15,
+      objectLiteral: '1313',
+      literalType: 'xs:int',
+      literalNumber: 1313,
+    },
+  ],
+} as WalkerMemoryGraphDataset;
+
+describe('WalkerMemoryGraphService', () => {
+  let service: WalkerMemoryGraphService;
+
+  // get the value of a synchronous observable
+  const read = <T>(value$: Observable<T>): T => {
+    let value: T | undefined;
+    value$.subscribe((v) => (value = v));
+    return value!;
+  };
+
+  beforeEach(() => {
+    service = new WalkerMemoryGraphService(DATASET);
+  });
+
+  it('should get a node by its ID or URI', () => {
+    expect(read(service.getNode(2)).uri).toBe('x:laura');
+    expect(read(service.getNodeByUri('x:laura')).id).toBe(2);
+  });
+
+  it('should emit a 404 error for a missing node', () => {
+    const errors: WalkerMemoryGraphError[] = [];
+    service.getNode(99).subscribe({ error: (e) => errors.push(e) });
+    service.getNodeByUri('x:none').subscribe({ error: (e) => errors.push(e) });
+    expect(errors.map((e) => e.status)).toEqual([404, 404]);
+  });
+
+  it('should get a node set with null for missing nodes', () => {
+    const nodes = read(service.getNodeSet([3, 99, 1]));
+    expect(nodes.map((n) => n?.id || null)).toEqual([3, null, 1]);
+  });
+
+  it('should get a page of nodes sorted by label', () => {
+    const page = read(service.getNodes(2, 2, { isClass: true }));
+    expect(page.total).toBe(3);
+    expect(page.pageCount).toBe(2);
+    expect(page.items.map((n) => n.id)).toEqual([20]);
+  });
+
+  it('should get all the nodes with a page size of 0', () => {
+    const page = read(service.getNodes(1, 0, { isClass: true }));
+    expect(page.items.map((n) => n.id)).toEqual([21, 22, 20]);
+  });
+
+  it('should get nodes by class, including subclasses', () => {
+    let page = read(service.getNodes(1, 10, { classIds: [21] }));
+    expect(page.items.map((n) => n.id)).toEqual([2, 1]);
+    page = read(service.getNodes(1, 10, { classIds: [20] }));
+    expect(page.items.map((n) => n.id)).toEqual([1]);
+  });
+
+  it('should get nodes by linked node and role', () => {
+    let page = read(
+      service.getNodes(1, 10, { linkedNodeId: 3, linkedNodeRole: 'O' })
+    );
+    expect(page.items.map((n) => n.id)).toEqual([4, 1]);
+    page = read(
+      service.getNodes(1, 10, { linkedNodeId: 3, linkedNodeRole: 'S' })
+    );
+    expect(page.items.map((n) => n.id)).toEqual([22]);
+  });
+
+  it('should get nodes by label', () => {
+    const page = read(service.getNodes(1, 10, { label: 'BOCC' }));
+    expect(page.items.map((n) => n.id)).toEqual([4]);
+  });
+
+  it('should get triple groups sorted by count and URI', () => {
+    const page = read(service.getTripleGroups(1, 10, { subjectId: 1 }));
+    expect(page.items.map((g) => g.predicateId)).toEqual([14, 10, 13, 12]);
+    expect(page.items[0].count).toBe(2);
+  });
+
+  it('should page triple groups', () => {
+    const page = read(service.getTripleGroups(2, 3, { subjectId: 1 }));
+    expect(page.total).toBe(4);
+    expect(page.items.map((g) => g.predicateId)).toEqual([12]);
+  });
+
+  it('should get triple groups with a custom sort', () => {
+    const page = read(service.getTripleGroups(1, 10, { subjectId: 1 }, 'U'));
+    expect(page.items.map((g) => g.predicateId)).toEqual([12, 13, 14, 10]);
+  });
+
+  it('should get triple groups by object and literal filters', () => {
+    let page = read(service.getTripleGroups(1, 10, { objectId: 3 }));
+    expect(page.items.map((g) => [g.predicateId, g.count])).toEqual([[13, 2]]);
+    page = read(
+      service.getTripleGroups(1, 10, { subjectId: 1, literalLanguage: 'EN' })
+    );
+    expect(page.items.map((g) => [g.predicateId, g.count])).toEqual([[14, 1]]);
+  });
+
+  it('should get linked nodes as subjects or objects', () => {
+    let page = read(
+      service.getLinkedNodes(1, 10, {
+        otherNodeId: 3,
+        predicateId: 13,
+        isObject: false,
+      })
+    );
+    expect(page.items.map((n) => n.id)).toEqual([4, 1]);
+    page = read(
+      service.getLinkedNodes(1, 10, {
+        otherNodeId: 1,
+        predicateId: 13,
+        isObject: true,
+      })
+    );
+    expect(page.items.map((n) => n.id)).toEqual([3]);
+  });
+
+  it('should filter and page linked nodes', () => {
+    let page = read(
+      service.getLinkedNodes(1, 10, {
+        otherNodeId: 3,
+        predicateId: 13,
+        isObject: false,
+        classIds: [20],
+      })
+    );
+    expect(page.items.map((n) => n.id)).toEqual([1]);
+    page = read(
+      service.getLinkedNodes(2, 1, {
+        otherNodeId: 3,
+        predicateId: 13,
+        isObject: false,
+      })
+    );
+    expect(page.total).toBe(2);
+    expect(page.items.map((n) => n.id)).toEqual([1]);
+  });
+
+  it('should get linked literals sorted by value', () => {
+    const page = read(
+      service.getLinkedLiterals(1, 10, { subjectId: 1, predicateId: 14 })
+    );
+    expect(page.items.map((t) => t.id)).toEqual([8, 9]);
+    expect(page.items[0].predicateUri).toBe('rdfs:label');
+  });
+
+  it('should filter linked literals', () => {
+    let page = read(
+      service.getLinkedLiterals(1, 10, { subjectId: 1, literalLanguage: 'en' })
+    );
+    expect(page.items.map((t) => t.id)).toEqual([9]);
+    page = read(service.getLinkedLiterals(1, 10, { minLiteralNumber: 1300 }));
+    expect(page.items.map((t) => t.id)).toEqual([10]);
+    page = read(service.getLinkedLiterals(1, 10, { maxLiteralNumber: 1300 }));
+    expect(page.items).toEqual([]);
+    page = read(
+      service.getLinkedLiterals(1, 10, { literalPattern: '^Petrarch$' })
+    );
+    expect(page.items.map((t) => t.id)).toEqual([9]);
+  });
+
+  it('should wait for an asynchronous dataset', () => {
+    const dataset$ = new Subject<WalkerMemoryGraphDataset>();
+    service = new WalkerMemoryGraphService(dataset$);
+    let label: string | undefined;
+    service.getNode(1).subscribe((n) => (label = n.label));
+    expect(label).toBeUndefined();
+    dataset$.next(DATASET);
+    expect(label).toBe('Petrarca');
+  });
+});
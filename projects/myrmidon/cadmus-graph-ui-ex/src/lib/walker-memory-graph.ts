@@ -0,0 +1,545 @@
+import { isObservable, Observable, of, ReplaySubject, timer } from 'rxjs';
+import { map, switchMap, take } from 'rxjs/operators';
+
+import { DataPage } from '@myrmidon/ng-tools';
+
+import {
+  LinkedLiteralFilter,
+  LinkedNodeFilter,
+  NodeFilter,
+  TripleFilter,
+  TripleGroup,
+  UriNode,
+  UriTriple,
+} from '@myrmidon/cadmus-api';
+
+/**
+ * A triple of the in-memory graph dataset. The URIs of its subject,
+ * predicate and object are got from the dataset nodes.
+ */
+export type WalkerMemoryTriple = Omit<
+  UriTriple,
+  'subjectUri' | 'predicateUri' | 'objectUri'
+>;
+
+/**
+ * The dataset seeding the in-memory graph service, usually loaded from
+ * a JSON document. Predicates and classes are nodes too.
+ */
+export interface WalkerMemoryGraphDataset {
+  nodes: UriNode[];
+  triples: WalkerMemoryTriple[];
+}
+
+/**
+ * Options for the in-memory graph service.
+ */
+export interface WalkerMemoryGraphOptions {
+  /**
+   * The simulated latency of each response, in milliseconds. Default is
+   * 0, i.e. synchronous responses.
+   */
+  delay?: number;
+}
+
+// the URIs of the predicates linking a node to its classes, and a class
+// to its superclasses
+const TYPE_URIS = [
+  'rdf:type',
+  'a',
+  'http://www.w3.org/1999/02/22-rdf-syntax-ns#type',
+];
+const SUBCLASS_URIS = [
+  'rdfs:subClassOf',
+  'http://www.w3.org/2000/01/rdf-schema#subClassOf',
+];
+
+function getPage<T>(
+  items: T[],
+  pageNumber: number,
+  pageSize: number
+): DataPage<T> {
+  const total = items.length;
+  // page size 0 means all the items
+  if (!pageSize || pageSize < 1) {
+    return {
+      pageNumber: 1,
+      pageSize: 0,
+      pageCount: total ? 1 : 0,
+      total: total,
+      items: items,
+    };
+  }
+  pageNumber = Math.max(1, pageNumber || 1);
+  const start = (pageNumber - 1) * pageSize;
+  return {
+    pageNumber: pageNumber,
+    pageSize: pageSize,
+    pageCount: Math.ceil(total / pageSize),
+    total: total,
+    items: items.slice(start, start + pageSize),
+  };
+}
+
+/**
+ * An error emitted by the in-memory graph service. This has the shape of
+ * an HTTP error response.
+ */
+export interface WalkerMemoryGraphError {
+  status: number;
+  statusText: string;
+  message: string;
+}
+
+function notFound(message: string): WalkerMemoryGraphError {
+  return { status: 404, statusText: 'Not Found', message: message };
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== undefined && value !== null;
+}
+
+/**
+ * In-memory replacement for the graph service, seeded from a dataset.
+ * This is used for offline demos and tests, without a Cadmus API backend.
+ * It implements the methods reading nodes and triples, with all their
+ * filters and paging; requests received before an asynchronous dataset
+ * is loaded wait for it.
+ */
+export class WalkerMemoryGraphService {
+  private readonly _ready$: ReplaySubject<void>;
+  private _nodes: Map<number, UriNode>;
+  private _triples: UriTriple[];
+
+  /**
+   * The simulated latency of each response, in milliseconds.
+   */
+  public delay: number;
+
+  constructor(
+    dataset: WalkerMemoryGraphDataset | Observable<WalkerMemoryGraphDataset>,
+    options?: WalkerMemoryGraphOptions
+  ) {
+    this._ready$ = new ReplaySubject<void>(1);
+    this._nodes = new Map<number, UriNode>();
+    this._triples = [];
+    this.delay = options?.delay || 0;
+
+    if (isObservable(dataset)) {
+      dataset.pipe(take(1)).subscribe({
+        next: (d) => this.load(d),
+        error: (error) => this._ready$.error(error),
+      });
+    } else {
+      this.load(dataset);
+    }
+  }
+
+  /**
+   * Load the specified dataset, replacing the current one.
+   *
+   * @param dataset The dataset.
+   */
+  public load(dataset: WalkerMemoryGraphDataset): void {
+    this._nodes = new Map<number, UriNode>(
+      (dataset.nodes || []).map((n) => [n.id, n])
+    );
+    this._triples = (dataset.triples || []).map(
+      (t) =>
+        ({
+          ...t,
+          subjectUri: this._nodes.get(t.subjectId)?.uri || '',
+          predicateUri: this._nodes.get(t.predicateId)?.uri || '',
+          objectUri: t.objectId ? this._nodes.get(t.objectId)?.uri : undefined,
+        } as UriTriple)
+    );
+    this._ready$.next();
+  }
+
+  private respond<T>(get: () => T): Observable<T> {
+    // errors thrown by get are emitted as errors
+    return this._ready$.pipe(
+      take(1),
+      switchMap(() =>
+        this.delay > 0 ? timer(this.delay).pipe(map(() => get())) : of(get())
+      )
+    );
+  }
+
+  private compareNodes(a: UriNode, b: UriNode): number {
+    return (
+      (a.label || a.uri).localeCompare(b.label || b.uri) ||
+      a.uri.localeCompare(b.uri)
+    );
+  }
+
+  private getClassIds(nodeId: number): Set<number> {
+    const ids = new Set<number>();
+    this._triples
+      .filter(
+        (t) =>
+          t.subjectId === nodeId &&
+          t.objectId &&
+          TYPE_URIS.includes(t.predicateUri)
+      )
+      .forEach((t) => ids.add(t.objectId!));
+
+    // add the superclasses of each class
+    const queue = Array.from(ids);
+    while (queue.length) {
+      const id = queue.shift()!;
+      this._triples
+        .filter(
+          (t) =>
+            t.subjectId === id &&
+            t.objectId &&
+            !ids.has(t.objectId) &&
+            SUBCLASS_URIS.includes(t.predicateUri)
+        )
+        .forEach((t) => {
+          ids.add(t.objectId!);
+          queue.push(t.objectId!);
+        });
+    }
+    return ids;
+  }
+
+  private matchNode(
+    node: UriNode,
+    filter: NodeFilter | LinkedNodeFilter
+  ): boolean {
+    if (
+      filter.uid &&
+      !node.uri.toLowerCase().includes(filter.uid.toLowerCase())
+    ) {
+      return false;
+    }
+    if (hasValue(filter.isClass) && !!node.isClass !== filter.isClass) {
+      return false;
+    }
+    if (filter.tag && node.tag !== filter.tag) {
+      return false;
+    }
+    if (
+      filter.label &&
+      !(node.label || '').toLowerCase().includes(filter.label.toLowerCase())
+    ) {
+      return false;
+    }
+    if (hasValue(filter.sourceType) && node.sourceType !== filter.sourceType) {
+      return false;
+    }
+    if (
+      filter.sid &&
+      (filter.isSidPrefix
+        ? !node.sid?.startsWith(filter.sid)
+        : node.sid !== filter.sid)
+    ) {
+      return false;
+    }
+    if (filter.classIds?.length) {
+      const classIds = this.getClassIds(node.id);
+      if (!filter.classIds.some((id) => classIds.has(id))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private matchLiteral(
+    triple: UriTriple,
+    filter: TripleFilter | LinkedLiteralFilter
+  ): boolean {
+    const hasLiteralFilter =
+      filter.literalPattern ||
+      filter.literalType ||
+      filter.literalLanguage ||
+      hasValue(filter.minLiteralNumber) ||
+      hasValue(filter.maxLiteralNumber);
+    if (!hasLiteralFilter) {
+      return true;
+    }
+    // literal filters exclude non-literal objects
+    if (triple.objectId) {
+      return false;
+    }
+    const value = triple.objectLiteral || '';
+    if (filter.literalPattern) {
+      let matched: boolean;
+      try {
+        matched = new RegExp(filter.literalPattern).test(value);
+      } catch {
+        matched = value.includes(filter.literalPattern);
+      }
+      if (!matched) {
+        return false;
+      }
+    }
+    if (filter.literalType && triple.literalType !== filter.literalType) {
+      return false;
+    }
+    if (
+      filter.literalLanguage &&
+      triple.literalLanguage?.toLowerCase() !==
+        filter.literalLanguage.toLowerCase()
+    ) {
+      return false;
+    }
+    if (
+      hasValue(filter.minLiteralNumber) &&
+      !(
+        hasValue(triple.literalNumber) &&
+        triple.literalNumber! >= filter.minLiteralNumber!
+      )
+    ) {
+      return false;
+    }
+    if (
+      hasValue(filter.maxLiteralNumber) &&
+      !(
+        hasValue(triple.literalNumber) &&
+        triple.literalNumber! <= filter.maxLiteralNumber!
+      )
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  private matchTriple(triple: UriTriple, filter: TripleFilter): boolean {
+    if (filter.subjectId && triple.subjectId !== filter.subjectId) {
+      return false;
+    }
+    if (
+      filter.predicateIds?.length &&
+      !filter.predicateIds.includes(triple.predicateId)
+    ) {
+      return false;
+    }
+    if (filter.notPredicateIds?.includes(triple.predicateId)) {
+      return false;
+    }
+    if (
+      hasValue(filter.hasLiteralObject) &&
+      !triple.objectId !== filter.hasLiteralObject
+    ) {
+      return false;
+    }
+    if (filter.objectId && triple.objectId !== filter.objectId) {
+      return false;
+    }
+    if (
+      filter.sid &&
+      (filter.isSidPrefix
+        ? !triple.sid?.startsWith(filter.sid)
+        : triple.sid !== filter.sid)
+    ) {
+      return false;
+    }
+    if (filter.tag && triple.tag !== filter.tag) {
+      return false;
+    }
+    return this.matchLiteral(triple, filter);
+  }
+
+  /**
+   * Get the specified page of the nodes matching the specified filter,
+   * sorted by label and URI.
+   *
+   * @param pageNumber The page number (1-N).
+   * @param pageSize The page size (0=all).
+   * @param filter The filter.
+   * @returns Observable with the page.
+   */
+  public getNodes(
+    pageNumber: number,
+    pageSize: number,
+    filter: NodeFilter
+  ): Observable<DataPage<UriNode>> {
+    return this.respond(() => {
+      let nodes = Array.from(this._nodes.values());
+      if (filter?.linkedNodeId) {
+        // the role of the linked node: S=subject, O=object, else any
+        const role = filter.linkedNodeRole?.toUpperCase();
+        const ids = new Set<number>();
+        this._triples.forEach((t) => {
+          if (role !== 'O' && t.subjectId === filter.linkedNodeId) {
+            if (t.objectId) {
+              ids.add(t.objectId);
+            }
+          }
+          if (role !== 'S' && t.objectId === filter.linkedNodeId) {
+            ids.add(t.subjectId);
+          }
+        });
+        nodes = nodes.filter((n) => ids.has(n.id));
+      }
+      nodes = nodes
+        .filter((n) => !filter || this.matchNode(n, filter))
+        .sort((a, b) => this.compareNodes(a, b));
+      return getPage(nodes, pageNumber, pageSize);
+    });
+  }
+
+  /**
+   * Get the node with the specified ID.
+   *
+   * @param id The node ID.
+   * @returns Observable with the node, or a 404 error if not found.
+   */
+  public getNode(id: number): Observable<UriNode> {
+    return this.respond(() => {
+      const node = this._nodes.get(id);
+      if (!node) {
+        throw notFound(`Node not found: ${id}`);
+      }
+      return node;
+    });
+  }
+
+  /**
+   * Get the node with the specified URI.
+   *
+   * @param uri The node URI.
+   * @returns Observable with the node, or a 404 error if not found.
+   */
+  public getNodeByUri(uri: string): Observable<UriNode> {
+    return this.respond(() => {
+      for (const node of this._nodes.values()) {
+        if (node.uri === uri) {
+          return node;
+        }
+      }
+      throw notFound(`Node not found: ${uri}`);
+    });
+  }
+
+  /**
+   * Get the nodes with the specified IDs.
+   *
+   * @param ids The node IDs.
+   * @returns Observable with the nodes, in the same order of the IDs, with
+   * null for the nodes not found.
+   */
+  public getNodeSet(ids: number[]): Observable<(UriNode | null)[]> {
+    return this.respond(() => ids.map((id) => this._nodes.get(id) || null));
+  }
+
+  /**
+   * Get the specified page of the groups of the triples matching the
+   * specified filter, grouped by their predicate.
+   *
+   * @param pageNumber The page number (1-N).
+   * @param pageSize The page size (0=all).
+   * @param filter The triples filter.
+   * @param sort The sort order: any combination of C (count) and U
+   * (predicate URI), uppercase for descending and lowercase for ascending.
+   * Default is Cu.
+   * @returns Observable with the page.
+   */
+  public getTripleGroups(
+    pageNumber: number,
+    pageSize: number,
+    filter: TripleFilter,
+    sort = 'Cu'
+  ): Observable<DataPage<TripleGroup>> {
+    return this.respond(() => {
+      const groups = new Map<number, TripleGroup>();
+      this._triples
+        .filter((t) => this.matchTriple(t, filter || {}))
+        .forEach((t) => {
+          const group = groups.get(t.predicateId);
+          if (group) {
+            group.count++;
+          } else {
+            groups.set(t.predicateId, {
+              predicateId: t.predicateId,
+              predicateUri: t.predicateUri,
+              count: 1,
+            });
+          }
+        });
+      const items = Array.from(groups.values()).sort((a, b) => {
+        for (const c of sort) {
+          const n =
+            c.toLowerCase() === 'c'
+              ? a.count - b.count
+              : a.predicateUri.localeCompare(b.predicateUri);
+          if (n) {
+            return c === c.toUpperCase() ? -n : n;
+          }
+        }
+        return a.predicateId - b.predicateId;
+      });
+      return getPage(items, pageNumber, pageSize);
+    });
+  }
+
+  /**
+   * Get the specified page of the nodes linked to the node and predicate
+   * specified by the filter, sorted by label and URI.
+   *
+   * @param pageNumber The page number (1-N).
+   * @param pageSize The page size (0=all).
+   * @param filter The filter. When isObject is true, the linked nodes are
+   * the objects of the other node; else, they are its subjects.
+   * @returns Observable with the page.
+   */
+  public getLinkedNodes(
+    pageNumber: number,
+    pageSize: number,
+    filter: LinkedNodeFilter
+  ): Observable<DataPage<UriNode>> {
+    return this.respond(() => {
+      const ids = new Set<number>();
+      this._triples
+        .filter((t) => t.predicateId === filter.predicateId && t.objectId)
+        .forEach((t) => {
+          if (filter.isObject) {
+            if (t.subjectId === filter.otherNodeId) {
+              ids.add(t.objectId!);
+            }
+          } else if (t.objectId === filter.otherNodeId) {
+            ids.add(t.subjectId);
+          }
+        });
+      const nodes = Array.from(ids)
+        .map((id) => this._nodes.get(id))
+        .filter((n) => n && this.matchNode(n, filter))
+        .sort((a, b) => this.compareNodes(a!, b!)) as UriNode[];
+      return getPage(nodes, pageNumber, pageSize);
+    });
+  }
+
+  /**
+   * Get the specified page of the literal triples having the subject and
+   * predicate specified by the filter, sorted by their value.
+   *
+   * @param pageNumber The page number (1-N).
+   * @param pageSize The page size (0=all).
+   * @param filter The filter.
+   * @returns Observable with the page.
+   */
+  public getLinkedLiterals(
+    pageNumber: number,
+    pageSize: number,
+    filter: LinkedLiteralFilter
+  ): Observable<DataPage<UriTriple>> {
+    return this.respond(() => {
+      const triples = this._triples
+        .filter(
+          (t) =>
+            !t.objectId &&
+            (!filter.subjectId || t.subjectId === filter.subjectId) &&
+            (!filter.predicateId || t.predicateId === filter.predicateId) &&
+            this.matchLiteral(t, filter)
+        )
+        .sort(
+          (a, b) =>
+            (a.objectLiteral || '').localeCompare(b.objectLiteral || '') ||
+            a.id - b.id
+        );
+      return getPage(triples, pageNumber, pageSize);
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  findWalkerNeighbor,
+  scoreWalkerNeighbor,
+  WalkerNeighborPosition,
+} from './walker-navigation';
+
+describe('scoreWalkerNeighbor', () => {
+  const origin = { x: 100, y: 100 };
+
+  it('should score a target ahead by its distance', () => {
+    expect(scoreWalkerNeighbor(origin, { x: 150, y: 100 }, 'right')).toBe(50);
+    expect(scoreWalkerNeighbor(origin, { x: 50, y: 100 }, 'left')).toBe(50);
+    expect(scoreWalkerNeighbor(origin, { x: 100, y: 150 }, 'down')).toBe(50);
+    expect(scoreWalkerNeighbor(origin, { x: 100, y: 50 }, 'up')).toBe(50);
+  });
+
+  it('should weigh the offset across the direction twice', () => {
+    expect(scoreWalkerNeighbor(origin, { x: 150, y: 90 }, 'right')).toBe(70);
+    expect(scoreWalkerNeighbor(origin, { x: 130, y: 40 }, 'up')).toBe(120);
+  });
+
+  it('should reject targets not lying in the direction', () => {
+    expect(scoreWalkerNeighbor(origin, { x: 50, y: 100 }, 'right')).toBeNull();
+    expect(scoreWalkerNeighbor(origin, { x: 150, y: 100 }, 'left')).toBeNull();
+    expect(scoreWalkerNeighbor(origin, { x: 100, y: 50 }, 'down')).toBeNull();
+    expect(scoreWalkerNeighbor(origin, { x: 100, y: 150 }, 'up')).toBeNull();
+  });
+
+  it('should reject targets at the same coordinate', () => {
+    expect(scoreWalkerNeighbor(origin, { x: 100, y: 300 }, 'right')).toBeNull();
+    expect(scoreWalkerNeighbor(origin, origin, 'down')).toBeNull();
+  });
+});
+
+describe('findWalkerNeighbor', () => {
+  const origin = { x: 0, y: 0 };
+  const neighbors: WalkerNeighborPosition[] = [
+    { id: 'N1', position: { x: 100, y: 0 } },
+    { id: 'N2', position: { x: 40, y: 30 } },
+    { id: 'N3', position: { x: -80, y: 10 } },
+    { id: 'N4', position: { x: 10, y: 200 } },
+  ];
+
+  it('should find the nearest neighbor in each direction', () => {
+    expect(findWalkerNeighbor(origin, neighbors, 'right')).toBe('N1');
+    expect(findWalkerNeighbor(origin, neighbors, 'left')).toBe('N3');
+    expect(findWalkerNeighbor(origin, neighbors, 'down')).toBe('N2');
+  });
+
+  it('should return null when no neighbor lies in the direction', () => {
+    expect(findWalkerNeighbor(origin, neighbors, 'up')).toBeNull();
+    expect(findWalkerNeighbor(origin, [], 'right')).toBeNull();
+  });
+
+  it('should prefer the first neighbor on ties', () => {
+    expect(
+      findWalkerNeighbor(
+        origin,
+        [
+          { id: 'N1', position: { x: 50, y: 10 } },
+          { id: 'N2', position: { x: 50, y: -10 } },
+        ],
+        'right'
+      )
+    ).toBe('N1');
+  });
+});
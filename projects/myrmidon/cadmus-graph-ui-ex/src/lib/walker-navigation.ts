@@ -0,0 +1,83 @@
+import { WalkerNodePosition } from './walker-layout';
+
+/**
+ * A direction used to move the selection from a node to its neighbors.
+ */
+export type WalkerDirection = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * A candidate for navigation in the walker graph, with its position in
+ * the graph layout.
+ */
+export interface WalkerNeighborPosition {
+  id: string;
+  position: WalkerNodePosition;
+}
+
+/**
+ * Score the specified position as a target for navigating from the
+ * origin in the specified direction. The score is the distance along the
+ * direction plus twice the offset across it, so that lower scores are
+ * better, and nodes nearer to the direction line are preferred.
+ *
+ * @param origin The position of the origin node.
+ * @param target The position of the target node.
+ * @param direction The direction.
+ * @returns The score, or null if the target does not lie in the direction.
+ */
+export function scoreWalkerNeighbor(
+  origin: WalkerNodePosition,
+  target: WalkerNodePosition,
+  direction: WalkerDirection
+): number | null {
+  const dx = target.x - origin.x;
+  const dy = target.y - origin.y;
+  let along: number;
+  let across: number;
+  switch (direction) {
+    case 'right':
+      along = dx;
+      across = dy;
+      break;
+    case 'left':
+      along = -dx;
+      across = dy;
+      break;
+    case 'down':
+      along = dy;
+      across = dx;
+      break;
+    default:
+      along = -dy;
+      across = dx;
+      break;
+  }
+  return along > 0 ? along + 2 * Math.abs(across) : null;
+}
+
+/**
+ * Find the neighbor to navigate to from the origin in the specified
+ * direction, i.e. the one with the best score. On ties, the first
+ * neighbor wins.
+ *
+ * @param origin The position of the origin node.
+ * @param neighbors The neighbors with their positions.
+ * @param direction The direction.
+ * @returns The ID of the neighbor, or null if none lies in the direction.
+ */
+export function findWalkerNeighbor(
+  origin: WalkerNodePosition,
+  neighbors: WalkerNeighborPosition[],
+  direction: WalkerDirection
+): string | null {
+  let best = Infinity;
+  let id: string | null = null;
+  for (const n of neighbors) {
+    const score = scoreWalkerNeighbor(origin, n.position, direction);
+    if (score !== null && score < best) {
+      best = score;
+      id = n.id;
+    }
+  }
+  return id;
+}
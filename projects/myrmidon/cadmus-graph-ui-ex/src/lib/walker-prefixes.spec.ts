@@ -0,0 +1,90 @@
+import { WalkerPrefixRegistry } from './walker-prefixes';
+
+describe('WalkerPrefixRegistry', () => {
+  const RDFS = 'http://www.w3.org/2000/01/rdf-schema#';
+
+  it('should include the well-known prefixes', () => {
+    const registry = new WalkerPrefixRegistry();
+    expect(registry.prefixes['rdfs']).toBe(RDFS);
+    expect(registry.prefixes['crm']).toBe(
+      'http://www.cidoc-crm.org/cidoc-crm/'
+    );
+  });
+
+  it('should add and override prefixes from the provided ones', () => {
+    const registry = new WalkerPrefixRegistry({
+      x: 'http://www.mysite.org/',
+      rdfs: 'http://example.org/rdfs#',
+    });
+    expect(registry.prefixes['x']).toBe('http://www.mysite.org/');
+    expect(registry.prefixes['rdfs']).toBe('http://example.org/rdfs#');
+  });
+
+  it('should not expose its prefixes for changes', () => {
+    const registry = new WalkerPrefixRegistry();
+    registry.prefixes['x'] = 'http://www.mysite.org/';
+    expect(registry.prefixes['x']).toBeUndefined();
+  });
+
+  describe('compact', () => {
+    const registry = new WalkerPrefixRegistry({
+      x: 'http://www.mysite.org/',
+      xg: 'http://www.mysite.org/guys/',
+    });
+
+    it('should compact a URI with a registered namespace', () => {
+      expect(registry.compact(RDFS + 'label')).toBe('rdfs:label');
+    });
+
+    it('should prefer the longest matching namespace', () => {
+      expect(registry.compact('http://www.mysite.org/guys/petrarca')).toBe(
+        'xg:petrarca'
+      );
+      expect(registry.compact('http://www.mysite.org/places/rome')).toBe(
+        'x:places/rome'
+      );
+    });
+
+    it('should return a URI without a registered namespace', () => {
+      expect(registry.compact('http://example.org/a')).toBe(
+        'http://example.org/a'
+      );
+    });
+
+    it('should not compact a bare namespace', () => {
+      expect(registry.compact(RDFS)).toBe(RDFS);
+    });
+
+    it('should return empty for null or undefined', () => {
+      expect(registry.compact(null)).toBe('');
+      expect(registry.compact(undefined)).toBe('');
+    });
+  });
+
+  describe('expand', () => {
+    const registry = new WalkerPrefixRegistry({ x: 'http://www.mysite.org/' });
+
+    it('should expand a CURIE with a registered prefix', () => {
+      expect(registry.expand('rdfs:label')).toBe(RDFS + 'label');
+      expect(registry.expand('x:guys/petrarca')).toBe(
+        'http://www.mysite.org/guys/petrarca'
+      );
+    });
+
+    it('should return a CURIE with an unknown prefix', () => {
+      expect(registry.expand('foo:bar')).toBe('foo:bar');
+    });
+
+    it('should return full URIs and non-CURIEs', () => {
+      expect(registry.expand('http://example.org/a')).toBe(
+        'http://example.org/a'
+      );
+      expect(registry.expand('label')).toBe('label');
+    });
+
+    it('should round-trip with compact', () => {
+      const uri = 'http://www.w3.org/2004/02/skos/core#prefLabel';
+      expect(registry.expand(registry.compact(uri))).toBe(uri);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { Inject, Injectable, InjectionToken, Optional } from '@angular/core';
+
+import { DEFAULT_RDF_PREFIXES } from './walker-rdf-exporter';
+
+/**
+ * Injection token for the project-specific namespace prefixes, each mapped
+ * to its namespace URI. These are added to the well-known prefixes, and
+ * override them when using the same prefix.
+ */
+export const WALKER_PREFIXES = new InjectionToken<Record<string, string>>(
+  'WALKER_PREFIXES'
+);
+
+// a CURIE: prefix + colon + local name
+const CURIE_REGEX = /^([A-Za-z_][-A-Za-z0-9_.]*):(.*)$/;
+
+/**
+ * Registry of namespace prefixes, used to shorten URIs to CURIEs (e.g.
+ * "http://www.w3.org/2000/01/rdf-schema#label" to "rdfs:label") and to
+ * expand CURIEs back to URIs. It includes the well-known prefixes in
+ * DEFAULT_RDF_PREFIXES, plus those provided via WALKER_PREFIXES. The
+ * prefixes cannot change after the registry is created, as they are used
+ * by pure pipes.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WalkerPrefixRegistry {
+  private readonly _prefixes: Map<string, string>;
+
+  /**
+   * The registered prefixes, each mapped to its namespace URI.
+   */
+  public get prefixes(): Record<string, string> {
+    const prefixes: Record<string, string> = {};
+    this._prefixes.forEach((ns, prefix) => (prefixes[prefix] = ns));
+    return prefixes;
+  }
+
+  constructor(
+    @Optional()
+    @Inject(WALKER_PREFIXES)
+    prefixes?: Record<string, string> | null
+  ) {
+    this._prefixes = new Map<string, string>();
+    Object.keys(DEFAULT_RDF_PREFIXES).forEach((p) =>
+      this._prefixes.set(p, DEFAULT_RDF_PREFIXES[p])
+    );
+    if (prefixes) {
+      Object.keys(prefixes).forEach((p) => this._prefixes.set(p, prefixes[p]));
+    }
+  }
+
+  /**
+   * Shorten the specified URI into a CURIE, using the prefix with the
+   * longest namespace matching it. When there is no such prefix, the
+   * URI is returned unchanged.
+   *
+   * @param uri The URI.
+   * @returns The CURIE or the URI.
+   */
+  public compact(uri: string | null | undefined): string {
+    if (!uri) {
+      return uri || '';
+    }
+    let prefix: string | undefined;
+    let namespace = '';
+    this._prefixes.forEach((ns, p) => {
+      if (
+        ns.length > namespace.length &&
+        uri.length > ns.length &&
+        uri.startsWith(ns)
+      ) {
+        prefix = p;
+        namespace = ns;
+      }
+    });
+    return prefix !== undefined
+      ? `${prefix}:${uri.substring(namespace.length)}`
+      : uri;
+  }
+
+  /**
+   * Expand the specified CURIE into a URI. When the CURIE prefix is not
+   * registered, the value is returned unchanged, so that this can safely
+   * be applied to full URIs.
+   *
+   * @param curie The CURIE.
+   * @returns The URI or the value.
+   */
+  public expand(curie: string | null | undefined): string {
+    if (!curie) {
+      return curie || '';
+    }
+    const m = CURIE_REGEX.exec(curie);
+    if (!m || m[2].startsWith('//')) {
+      return curie;
+    }
+    const ns = this._prefixes.get(m[1]);
+    return ns !== undefined ? ns + m[2] : curie;
+  }
+}
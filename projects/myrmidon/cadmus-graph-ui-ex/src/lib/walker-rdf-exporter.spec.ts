@@ -0,0 +1,177 @@
+import { Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+
+import { DEFAULT_RDF_PREFIXES, WalkerRdfExporter } from './walker-rdf-exporter';
+
+// get a walker graph node with the specified data
+const node = (id: string, data: Record<string, unknown>): GraphNode => ({
+  id: id,
+  label: id,
+  data: data,
+});
+
+// get the edges linking each pair of graph node IDs
+const link = (...pairs: [string, string][]): Edge[] =>
+  pairs.map(([s, t]) => ({ id: `E${s}_${t}`, source: s, target: t }));
+
+// Petrarca loves Laura, and lived in Avignon like Boccaccio; the triple
+// Boccaccio livedIn Avignon is represented by both an outbound and an
+// inbound property group
+const NODES: GraphNode[] = [
+  node('N1', { uri: 'ex:petrarca' }),
+  node('N2', { uri: 'ex:people/laura' }),
+  node('N3', { uri: 'http://other.org/avignon' }),
+  node('N4', { uri: 'boccaccio' }),
+  node('P12N1', { uri: 'ex:loves' }),
+  node('P13N1', { uri: 'ex:livedIn' }),
+  node('P13N3', { uri: 'ex:livedIn' }),
+  node('P13N4', { uri: 'ex:livedIn' }),
+  node('P14N1', { uri: 'rdfs:label' }),
+  node('P15N4', { uri: 'ex:born' }),
+  node('L1', { value: 'Say "hi"\nback\\slash', language: 'en' }),
+  node('L2', { value: 'Petrarca', type: 'xsd:string' }),
+  node('L3', { value: '1304', type: 'xs:int' }),
+];
+
+const EDGES: Edge[] = link(
+  ['N1', 'P12N1'],
+  ['P12N1', 'N2'],
+  ['N1', 'P13N1'],
+  ['P13N1', 'N3'],
+  ['N3', 'P13N3'],
+  ['N4', 'P13N3'],
+  ['N4', 'P13N4'],
+  ['P13N4', 'N3'],
+  ['N1', 'P14N1'],
+  ['P14N1', 'L1'],
+  ['P14N1', 'L2'],
+  ['N4', 'P15N4'],
+  ['P15N4', 'L3']
+);
+
+describe('WalkerRdfExporter', () => {
+  let exporter: WalkerRdfExporter;
+
+  beforeEach(() => {
+    exporter = new WalkerRdfExporter({
+      prefixes: { ...DEFAULT_RDF_PREFIXES, ex: 'http://example.org/ns/' },
+    });
+  });
+
+  it('should resolve IRIs', () => {
+    expect(exporter.resolveIri('rdfs:label')).toBe(
+      'http://www.w3.org/2000/01/rdf-schema#label'
+    );
+    expect(exporter.resolveIri('http://other.org/x')).toBe(
+      'http://other.org/x'
+    );
+    expect(exporter.resolveIri('urn:x:y')).toBe('urn:x:y');
+    expect(exporter.resolveIri('foo:bar')).toBe('foo:bar');
+    expect(exporter.resolveIri('bar')).toBe('http://example.org/bar');
+    expect(
+      new WalkerRdfExporter({ baseUri: 'http://base.org/' }).resolveIri('bar')
+    ).toBe('http://base.org/bar');
+  });
+
+  it('should export N-Triples', () => {
+    const ns = 'http://example.org/ns/';
+    expect(exporter.toNTriples(NODES, EDGES)).toBe(
+      [
+        `<${ns}petrarca> <${ns}loves> <${ns}people/laura> .`,
+        `<${ns}petrarca> <${ns}livedIn> <http://other.org/avignon> .`,
+        `<http://example.org/boccaccio> <${ns}livedIn> <http://other.org/avignon> .`,
+        `<${ns}petrarca> <http://www.w3.org/2000/01/rdf-schema#label> "Say \\"hi\\"\\nback\\\\slash"@en .`,
+        `<${ns}petrarca> <http://www.w3.org/2000/01/rdf-schema#label> "Petrarca" .`,
+        `<http://example.org/boccaccio> <${ns}born> "1304"^^<http://www.w3.org/2001/XMLSchema#int> .`,
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should export Turtle', () => {
+    expect(exporter.toTurtle(NODES, EDGES)).toBe(
+      [
+        '@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .',
+        '@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .',
+        '@prefix ex: <http://example.org/ns/> .',
+        '',
+        'ex:petrarca',
+        '  ex:loves <http://example.org/ns/people/laura> ;',
+        '  ex:livedIn <http://other.org/avignon> ;',
+        '  rdfs:label "Say \\"hi\\"\\nback\\\\slash"@en, "Petrarca" .',
+        '',
+        '<http://example.org/boccaccio>',
+        '  ex:livedIn <http://other.org/avignon> ;',
+        '  ex:born "1304"^^xsd:int .',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should export JSON-LD', () => {
+    const json = exporter.toJsonLd(NODES, EDGES);
+    expect(json).toContain('"Say \\"hi\\"\\nback\\\\slash"');
+    expect(JSON.parse(json)).toEqual({
+      '@context': {
+        rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+        xsd: 'http://www.w3.org/2001/XMLSchema#',
+        ex: 'http://example.org/ns/',
+      },
+      '@graph': [
+        {
+          '@id': 'ex:petrarca',
+          'ex:loves': [{ '@id': 'http://example.org/ns/people/laura' }],
+          'ex:livedIn': [{ '@id': 'http://other.org/avignon' }],
+          'rdfs:label': [
+            { '@value': 'Say "hi"\nback\\slash', '@language': 'en' },
+            { '@value': 'Petrarca' },
+          ],
+        },
+        {
+          '@id': 'http://example.org/boccaccio',
+          'ex:livedIn': [{ '@id': 'http://other.org/avignon' }],
+          'ex:born': [{ '@value': '1304', '@type': 'xsd:int' }],
+        },
+      ],
+    });
+  });
+
+  it('should escape IRIs', () => {
+    expect(
+      exporter.toNTriples(
+        [
+          node('N1', { uri: 'http://other.org/a b' }),
+          node('P2N1', { uri: 'ex:p' }),
+          node('N3', { uri: 'http://other.org/<c>' }),
+        ],
+        link(['N1', 'P2N1'], ['P2N1', 'N3'])
+      )
+    ).toBe(
+      '<http://other.org/a%20b> <http://example.org/ns/p> ' +
+        '<http://other.org/%3Cc%3E> .\n'
+    );
+  });
+
+  it('should skip triples without their anchor node or having literal subjects', () => {
+    const nodes = [
+      node('P2N1', { uri: 'ex:p' }),
+      node('N3', { uri: 'ex:c' }),
+      node('P4N3', { uri: 'ex:q' }),
+      node('L5', { value: 'x' }),
+    ];
+    const edges = link(['P2N1', 'N3'], ['L5', 'P4N3']);
+    expect(exporter.toNTriples(nodes, edges)).toBe('');
+    expect(exporter.toTurtle(nodes, edges)).toBe('');
+  });
+
+  it('should export in the specified format', () => {
+    expect(exporter.export(NODES, EDGES, 'ntriples')).toBe(
+      exporter.toNTriples(NODES, EDGES)
+    );
+    expect(exporter.export(NODES, EDGES, 'jsonld')).toBe(
+      exporter.toJsonLd(NODES, EDGES)
+    );
+    expect(exporter.export(NODES, EDGES, 'turtle')).toBe(
+      exporter.toTurtle(NODES, EDGES)
+    );
+  });
+});
@@ -0,0 +1,350 @@
+import { Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+
+import { WalkerLitData, WalkerNodeData } from './graph-walker';
+import { getWalkerTriples } from './walker-triples';
+
+/**
+ * The RDF serialization formats supported by the exporter.
+ */
+export type WalkerRdfFormat = 'turtle' | 'ntriples' | 'jsonld';
+
+/**
+ * Well-known RDF namespace prefixes.
+ */
+export const DEFAULT_RDF_PREFIXES: Record<string, string> = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  xs: 'http://www.w3.org/2001/XMLSchema#',
+  owl: 'http://www.w3.org/2002/07/owl#',
+  skos: 'http://www.w3.org/2004/02/skos/core#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  dcterms: 'http://purl.org/dc/terms/',
+  foaf: 'http://xmlns.com/foaf/0.1/',
+  crm: 'http://www.cidoc-crm.org/cidoc-crm/',
+};
+
+/**
+ * Options for the RDF exporter.
+ */
+export interface WalkerRdfExportOptions {
+  /**
+   * The prefixes to use, each mapped to its namespace URI.
+   * Default is DEFAULT_RDF_PREFIXES.
+   */
+  prefixes?: Record<string, string>;
+  /**
+   * The base URI used to resolve URIs without a scheme or known prefix.
+   * Default is "http://example.org/".
+   */
+  baseUri?: string;
+}
+
+/**
+ * The MIME type and file extension for each RDF format.
+ */
+export const WALKER_RDF_FORMAT_INFO: {
+  [key in WalkerRdfFormat]: { mimeType: string; extension: string };
+} = {
+  turtle: { mimeType: 'text/turtle', extension: 'ttl' },
+  ntriples: { mimeType: 'application/n-triples', extension: 'nt' },
+  jsonld: { mimeType: 'application/ld+json', extension: 'jsonld' },
+};
+
+// an RDF term: either a resource or a literal
+interface RdfTerm {
+  iri?: string;
+  value?: string;
+  type?: string;
+  language?: string;
+}
+
+interface RdfTriple {
+  s: string;
+  p: string;
+  o: RdfTerm;
+}
+
+const XSD_STRING = 'http://www.w3.org/2001/XMLSchema#string';
+
+/**
+ * RDF exporter for the walker graph. This rebuilds the triples represented
+ * by the walker's nodes (N), property groups (P), and literals (L), and
+ * serializes them as Turtle, N-Triples, or JSON-LD.
+ */
+export class WalkerRdfExporter {
+  private readonly _prefixes: Record<string, string>;
+  private readonly _baseUri: string;
+
+  constructor(options?: WalkerRdfExportOptions) {
+    this._prefixes = options?.prefixes || DEFAULT_RDF_PREFIXES;
+    this._baseUri = options?.baseUri || 'http://example.org/';
+  }
+
+  /**
+   * Resolve the specified URI into a full IRI, expanding its prefix if any.
+   *
+   * @param uri The URI, possibly prefixed.
+   * @returns The IRI.
+   */
+  public resolveIri(uri: string): string {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(uri) || uri.startsWith('urn:')) {
+      return uri;
+    }
+    const i = uri.indexOf(':');
+    if (i > -1) {
+      const ns = this._prefixes[uri.substring(0, i)];
+      // unknown prefixes are treated as IRI schemes
+      return ns ? ns + uri.substring(i + 1) : uri;
+    }
+    return this._baseUri + uri;
+  }
+
+  private escapeLiteral(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+  }
+
+  private escapeIri(iri: string): string {
+    return iri.replace(/[\x00-\x20<>"{}|^`\\]/g, (c) => encodeURIComponent(c));
+  }
+
+  /**
+   * Try to compact the specified IRI into a prefixed name.
+   *
+   * @param iri The IRI.
+   * @returns The prefix and the prefixed name, or null.
+   */
+  private compactIri(iri: string): [string, string] | null {
+    for (const prefix of Object.keys(this._prefixes)) {
+      const ns = this._prefixes[prefix];
+      if (iri.startsWith(ns)) {
+        const local = iri.substring(ns.length);
+        if (/^([A-Za-z0-9_]([A-Za-z0-9_.-]*[A-Za-z0-9_-])?)?$/.test(local)) {
+          return [prefix, `${prefix}:${local}`];
+        }
+      }
+    }
+    return null;
+  }
+
+  private buildTriples(nodes: GraphNode[], edges: Edge[]): RdfTriple[] {
+    const nodeMap = new Map<string, GraphNode>(nodes.map((n) => [n.id, n]));
+    const triples: RdfTriple[] = [];
+
+    for (const t of getWalkerTriples(nodes, edges)) {
+      const subject = nodeMap.get(t.subjectId);
+      const object = nodeMap.get(t.objectId);
+      // literals can only be objects
+      if (!subject?.id.startsWith('N') || !object) {
+        continue;
+      }
+      let o: RdfTerm;
+      if (object.id.startsWith('L')) {
+        const ld = object.data as WalkerLitData;
+        o = {
+          value: ld.value,
+          language: ld.language,
+          type: ld.type ? this.resolveIri(ld.type) : undefined,
+        };
+      } else {
+        o = { iri: this.resolveIri((object.data as WalkerNodeData).uri) };
+      }
+      triples.push({
+        s: this.resolveIri((subject.data as WalkerNodeData).uri),
+        p: this.resolveIri(t.predicate),
+        o: o,
+      });
+    }
+    return triples;
+  }
+
+  private writeNTriplesTerm(term: RdfTerm): string {
+    if (term.iri) {
+      return `<${this.escapeIri(term.iri)}>`;
+    }
+    let s = `"${this.escapeLiteral(term.value || '')}"`;
+    if (term.language) {
+      s += '@' + term.language;
+    } else if (term.type && term.type !== XSD_STRING) {
+      s += `^^<${this.escapeIri(term.type)}>`;
+    }
+    return s;
+  }
+
+  /**
+   * Export the specified graph as N-Triples.
+   *
+   * @param nodes The walker nodes.
+   * @param edges The walker edges.
+   * @returns N-Triples text.
+   */
+  public toNTriples(nodes: GraphNode[], edges: Edge[]): string {
+    return this.buildTriples(nodes, edges)
+      .map(
+        (t) =>
+          `<${this.escapeIri(t.s)}> <${this.escapeIri(
+            t.p
+          )}> ${this.writeNTriplesTerm(t.o)} .\n`
+      )
+      .join('');
+  }
+
+  private writeTurtleIri(iri: string, usedPrefixes: Set<string>): string {
+    const c = this.compactIri(iri);
+    if (c) {
+      usedPrefixes.add(c[0]);
+      return c[1];
+    }
+    return `<${this.escapeIri(iri)}>`;
+  }
+
+  private writeTurtleTerm(term: RdfTerm, usedPrefixes: Set<string>): string {
+    if (term.iri) {
+      return this.writeTurtleIri(term.iri, usedPrefixes);
+    }
+    let s = `"${this.escapeLiteral(term.value || '')}"`;
+    if (term.language) {
+      s += '@' + term.language;
+    } else if (term.type && term.type !== XSD_STRING) {
+      s += '^^' + this.writeTurtleIri(term.type, usedPrefixes);
+    }
+    return s;
+  }
+
+  /**
+   * Export the specified graph as Turtle.
+   *
+   * @param nodes The walker nodes.
+   * @param edges The walker edges.
+   * @returns Turtle text.
+   */
+  public toTurtle(nodes: GraphNode[], edges: Edge[]): string {
+    const used = new Set<string>();
+    // group by subject, then by predicate
+    const subjects = new Map<string, Map<string, string[]>>();
+    for (const t of this.buildTriples(nodes, edges)) {
+      const s = this.writeTurtleIri(t.s, used);
+      const p = this.writeTurtleIri(t.p, used);
+      if (!subjects.has(s)) {
+        subjects.set(s, new Map<string, string[]>());
+      }
+      const preds = subjects.get(s)!;
+      if (!preds.has(p)) {
+        preds.set(p, []);
+      }
+      preds.get(p)!.push(this.writeTurtleTerm(t.o, used));
+    }
+
+    const lines: string[] = [];
+    Object.keys(this._prefixes)
+      .filter((p) => used.has(p))
+      .forEach((p) => {
+        lines.push(`@prefix ${p}: <${this._prefixes[p]}> .`);
+      });
+    if (lines.length) {
+      lines.push('');
+    }
+
+    subjects.forEach((preds, s) => {
+      const predLines: string[] = [];
+      preds.forEach((objects, p) => {
+        predLines.push(`  ${p} ${objects.join(', ')}`);
+      });
+      lines.push(s);
+      lines.push(predLines.join(' ;\n') + ' .');
+      lines.push('');
+    });
+    return lines.join('\n');
+  }
+
+  /**
+   * Export the specified graph as JSON-LD.
+   *
+   * @param nodes The walker nodes.
+   * @param edges The walker edges.
+   * @returns JSON-LD text.
+   */
+  public toJsonLd(nodes: GraphNode[], edges: Edge[]): string {
+    const used = new Set<string>();
+    const compact = (iri: string): string => {
+      const c = this.compactIri(iri);
+      if (c) {
+        used.add(c[0]);
+        return c[1];
+      }
+      return iri;
+    };
+
+    const subjects = new Map<
+      string,
+      { [key: string]: string | Record<string, string>[] }
+    >();
+    for (const t of this.buildTriples(nodes, edges)) {
+      const id = compact(t.s);
+      if (!subjects.has(id)) {
+        subjects.set(id, { '@id': id });
+      }
+      const subject = subjects.get(id)!;
+      const p = compact(t.p);
+      let o: Record<string, string>;
+      if (t.o.iri) {
+        o = { '@id': compact(t.o.iri) };
+      } else {
+        o = { '@value': t.o.value || '' };
+        if (t.o.language) {
+          o['@language'] = t.o.language;
+        } else if (t.o.type && t.o.type !== XSD_STRING) {
+          o['@type'] = compact(t.o.type);
+        }
+      }
+      if (!subject[p]) {
+        subject[p] = [];
+      }
+      (subject[p] as Record<string, string>[]).push(o);
+    }
+
+    const context: Record<string, string> = {};
+    Object.keys(this._prefixes)
+      .filter((p) => used.has(p))
+      .forEach((p) => {
+        context[p] = this._prefixes[p];
+      });
+
+    return JSON.stringify(
+      {
+        '@context': context,
+        '@graph': Array.from(subjects.values()),
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Export the specified graph in the specified format.
+   *
+   * @param nodes The walker nodes.
+   * @param edges The walker edges.
+   * @param format The RDF format.
+   * @returns The serialized graph.
+   */
+  public export(
+    nodes: GraphNode[],
+    edges: Edge[],
+    format: WalkerRdfFormat
+  ): string {
+    switch (format) {
+      case 'ntriples':
+        return this.toNTriples(nodes, edges);
+      case 'jsonld':
+        return this.toJsonLd(nodes, edges);
+      default:
+        return this.toTurtle(nodes, edges);
+    }
+  }
+}
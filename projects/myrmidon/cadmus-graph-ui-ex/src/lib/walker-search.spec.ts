@@ -0,0 +1,82 @@
+import { Node as GraphNode } from '@swimlane/ngx-graph';
+
+import { getWalkerSearchTexts, searchWalkerNodes } from './walker-search';
+
+describe('searchWalkerNodes', () => {
+  const compact = (uri: string) => uri.replace('http://www.mysite.org/', 'x:');
+  const nodes: GraphNode[] = [
+    {
+      id: 'N1',
+      label: 'Francesco Petrarca',
+      data: {
+        uri: 'http://www.mysite.org/guys/francesco_petrarca',
+        sid: 'a1f3c8e2-1111-2222-3333-444455556666',
+        tag: 'person',
+      },
+    },
+    {
+      id: 'N2',
+      label: 'Giovanni Boccaccio',
+      data: { uri: 'http://www.mysite.org/guys/giovanni_boccaccio' },
+    },
+    {
+      id: 'L3',
+      label: '"Petrarch"@en',
+      data: { value: 'Petrarch' },
+    },
+    {
+      id: 'P4N1',
+      label: 'rdfs:label',
+      data: { uri: 'rdfs:label', value: 'ignored' },
+    },
+  ];
+
+  it('should return nothing for an empty query', () => {
+    expect(searchWalkerNodes(nodes, '')).toEqual([]);
+    expect(searchWalkerNodes(nodes, '  ')).toEqual([]);
+    expect(searchWalkerNodes(nodes, null)).toEqual([]);
+  });
+
+  it('should match labels case-insensitively', () => {
+    expect(searchWalkerNodes(nodes, 'BOCCACCIO').map((n) => n.id)).toEqual([
+      'N2',
+    ]);
+  });
+
+  it('should match URIs, SIDs, tags and literal values', () => {
+    expect(searchWalkerNodes(nodes, 'guys/').map((n) => n.id)).toEqual([
+      'N1',
+      'N2',
+    ]);
+    expect(searchWalkerNodes(nodes, 'a1f3c8e2').map((n) => n.id)).toEqual([
+      'N1',
+    ]);
+    expect(searchWalkerNodes(nodes, 'person').map((n) => n.id)).toEqual(['N1']);
+    expect(searchWalkerNodes(nodes, 'petrar').map((n) => n.id)).toEqual([
+      'N1',
+      'L3',
+    ]);
+  });
+
+  it('should match compacted URIs only with a compactor', () => {
+    expect(searchWalkerNodes(nodes, 'x:guys')).toEqual([]);
+    expect(
+      searchWalkerNodes(nodes, 'x:guys', compact).map((n) => n.id)
+    ).toEqual(['N1', 'N2']);
+  });
+
+  it('should require all the terms to match', () => {
+    expect(
+      searchWalkerNodes(nodes, 'francesco person').map((n) => n.id)
+    ).toEqual(['N1']);
+    expect(searchWalkerNodes(nodes, 'francesco boccaccio')).toEqual([]);
+  });
+
+  it('should use values only for literal nodes', () => {
+    expect(getWalkerSearchTexts(nodes[3])).toEqual([
+      'rdfs:label',
+      'rdfs:label',
+    ]);
+    expect(searchWalkerNodes(nodes, 'ignored')).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { Node as GraphNode } from '@swimlane/ngx-graph';
+
+/**
+ * A function shortening a URI, used to match URIs also in their CURIE form.
+ */
+export type WalkerUriCompactor = (uri: string) => string;
+
+/**
+ * Get the texts of the specified node which can be matched by a search:
+ * its label, URI (both full and compacted), SID, tag, and literal value.
+ *
+ * @param node The node.
+ * @param compact The optional function used to compact URIs.
+ * @returns The texts.
+ */
+export function getWalkerSearchTexts(
+  node: GraphNode,
+  compact?: WalkerUriCompactor
+): string[] {
+  const data = node.data || {};
+  const texts: string[] = [];
+  if (node.label) {
+    texts.push(node.label);
+  }
+  if (data.uri) {
+    texts.push(data.uri);
+    if (compact) {
+      texts.push(compact(data.uri));
+    }
+  }
+  if (data.sid) {
+    texts.push(data.sid);
+  }
+  if (data.tag) {
+    texts.push(data.tag);
+  }
+  if (node.id.startsWith('L') && data.value) {
+    texts.push(data.value);
+  }
+  return texts;
+}
+
+/**
+ * Search the specified nodes for the specified text. The search is
+ * case-insensitive, and a node matches when each whitespace-delimited
+ * term of the query is found in any of its searchable texts.
+ *
+ * @param nodes The nodes to search.
+ * @param query The text to find.
+ * @param compact The optional function used to compact URIs.
+ * @returns The matching nodes, in their original order.
+ */
+export function searchWalkerNodes(
+  nodes: GraphNode[],
+  query: string | null | undefined,
+  compact?: WalkerUriCompactor
+): GraphNode[] {
+  const terms = (query || '')
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((t) => t);
+  if (!terms.length) {
+    return [];
+  }
+  return nodes.filter((node) => {
+    const texts = getWalkerSearchTexts(node, compact).map((t) =>
+      t.toLowerCase()
+    );
+    return terms.every((term) => texts.some((t) => t.includes(term)));
+  });
+}
@@ -0,0 +1,127 @@
+import { Node as GraphNode } from '@swimlane/ngx-graph';
+
+import {
+  buildWalkerSourceLink,
+  getWalkerNodeSource,
+  parseWalkerSid,
+} from './walker-sid';
+
+const ITEM_ID = 'a1f3c8e2-1111-2222-3333-444455556666';
+const PART_ID = 'b2e4d9f3-7777-8888-9999-aaaabbbbcccc';
+
+describe('parseWalkerSid', () => {
+  it('should parse an item ID', () => {
+    expect(parseWalkerSid(ITEM_ID)).toEqual({ sid: ITEM_ID, itemId: ITEM_ID });
+  });
+
+  it('should parse a part ID from the node source type', () => {
+    expect(parseWalkerSid(PART_ID, 2)).toEqual({
+      sid: PART_ID,
+      partId: PART_ID,
+    });
+  });
+
+  it('should parse a part ID with its role', () => {
+    expect(parseWalkerSid(`${PART_ID}:fr.it.vedph.comment`)).toEqual({
+      sid: `${PART_ID}:fr.it.vedph.comment`,
+      partId: PART_ID,
+      partRole: 'fr.it.vedph.comment',
+    });
+  });
+
+  it('should parse an item ID followed by a part ID', () => {
+    expect(parseWalkerSid(`${ITEM_ID}/${PART_ID}`)).toEqual({
+      sid: `${ITEM_ID}/${PART_ID}`,
+      itemId: ITEM_ID,
+      partId: PART_ID,
+    });
+  });
+
+  it('should parse a suffix', () => {
+    expect(parseWalkerSid(`${PART_ID}:role/eid/petrarca`, 2)).toEqual({
+      sid: `${PART_ID}:role/eid/petrarca`,
+      partId: PART_ID,
+      partRole: 'role',
+      suffix: 'eid/petrarca',
+    });
+  });
+
+  it('should trim the SID', () => {
+    expect(parseWalkerSid(` ${ITEM_ID} `)?.sid).toBe(ITEM_ID);
+  });
+
+  it('should return null for invalid SIDs', () => {
+    expect(parseWalkerSid(null)).toBeNull();
+    expect(parseWalkerSid('')).toBeNull();
+    expect(parseWalkerSid('not-a-guid')).toBeNull();
+    expect(parseWalkerSid(`x${ITEM_ID}`)).toBeNull();
+  });
+});
+
+describe('buildWalkerSourceLink', () => {
+  it('should fill the placeholders with encoded values', () => {
+    expect(
+      buildWalkerSourceLink('/items/{itemId}/parts/{partId}?role={partRole}', {
+        sid: '',
+        itemId: ITEM_ID,
+        partId: PART_ID,
+        partRole: 'a b',
+      })
+    ).toBe(`/items/${ITEM_ID}/parts/${PART_ID}?role=a%20b`);
+  });
+
+  it('should return null when a placeholder has no value', () => {
+    expect(
+      buildWalkerSourceLink('/parts/{partId}', { sid: '', itemId: ITEM_ID })
+    ).toBeNull();
+  });
+
+  it('should return null for an empty template', () => {
+    expect(buildWalkerSourceLink('', { sid: '', itemId: ITEM_ID })).toBeNull();
+    expect(
+      buildWalkerSourceLink(undefined, { sid: '', itemId: ITEM_ID })
+    ).toBeNull();
+  });
+});
+
+describe('getWalkerNodeSource', () => {
+  it('should get the item source of a node', () => {
+    const node: GraphNode = {
+      id: 'N12',
+      label: 'petrarca',
+      data: { uri: 'x:guys/petrarca', sid: ITEM_ID },
+    };
+    expect(getWalkerNodeSource(node)).toEqual({
+      sid: ITEM_ID,
+      itemId: ITEM_ID,
+      target: 'item',
+      nodeId: 12,
+      uri: 'x:guys/petrarca',
+      node: node,
+    });
+  });
+
+  it('should target the part editor for part sources', () => {
+    const node: GraphNode = {
+      id: 'N3',
+      label: 'event',
+      data: { uri: 'x:events/birth', sid: PART_ID, sourceType: 2 },
+    };
+    const source = getWalkerNodeSource(node);
+    expect(source?.target).toBe('part');
+    expect(source?.partId).toBe(PART_ID);
+  });
+
+  it('should return null for nodes without a valid SID', () => {
+    expect(
+      getWalkerNodeSource({ id: 'N1', label: 'a', data: { uri: 'x:a' } })
+    ).toBeNull();
+  });
+
+  it('should return null for non-N nodes', () => {
+    expect(
+      getWalkerNodeSource({ id: 'L1', label: 'a', data: { sid: ITEM_ID } })
+    ).toBeNull();
+    expect(getWalkerNodeSource(null)).toBeNull();
+  });
+});
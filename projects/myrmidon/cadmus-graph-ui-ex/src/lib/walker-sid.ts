@@ -0,0 +1,179 @@
+import { InjectionToken } from '@angular/core';
+import { Node as GraphNode } from '@swimlane/ngx-graph';
+
+/**
+ * The components of a Cadmus source ID (SID), i.e. the ID of the item or
+ * part a graph node was mapped from.
+ */
+export interface WalkerSid {
+  /**
+   * The full SID.
+   */
+  sid: string;
+  /**
+   * The item ID, when known.
+   */
+  itemId?: string;
+  /**
+   * The part ID, when the source is a part.
+   */
+  partId?: string;
+  /**
+   * The part role ID, if any.
+   */
+  partRole?: string;
+  /**
+   * The suffix following the IDs, e.g. a pin name or a mapping-specific
+   * suffix, without its leading slash.
+   */
+  suffix?: string;
+}
+
+/**
+ * The source of a walker node, as emitted when users request to move to
+ * it. This has the components of its SID, plus the editor to route to:
+ * item when the SID has only an item ID, else part.
+ */
+export interface WalkerNodeSource extends WalkerSid {
+  target: 'item' | 'part';
+  /**
+   * The numeric ID of the graph node.
+   */
+  nodeId: number;
+  /**
+   * The URI of the graph node.
+   */
+  uri: string;
+  /**
+   * The walker node.
+   */
+  node: GraphNode;
+}
+
+/**
+ * The URL templates for the links to the Cadmus editor for the source of
+ * a node. Templates can include placeholders `{itemId}`, `{partId}` and
+ * `{partRole}`, which are replaced with the corresponding (URI-encoded)
+ * components of the SID. A link is built only when all its placeholders
+ * have a value.
+ */
+export interface WalkerSourceLinks {
+  item?: string;
+  part?: string;
+}
+
+/**
+ * The default links to the Cadmus editor, relative to the current host.
+ */
+export const WALKER_DEFAULT_SOURCE_LINKS: WalkerSourceLinks = {
+  item: '/items/{itemId}',
+};
+
+/**
+ * Injection token for the links to the Cadmus editor. When not provided,
+ * WALKER_DEFAULT_SOURCE_LINKS is used.
+ */
+export const WALKER_SOURCE_LINKS = new InjectionToken<WalkerSourceLinks>(
+  'WALKER_SOURCE_LINKS'
+);
+
+// the NodeSourceType value for parts
+const PART_SOURCE_TYPE = 2;
+
+const GUID =
+  '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}';
+
+// GUID [/GUID] [:role] [/suffix]
+const SID_REGEX = new RegExp(
+  `^(${GUID})(?:/(${GUID}))?(?::([^/]+))?(?:/(.*))?$`
+);
+
+/**
+ * Parse the specified SID. A SID starts with the GUID of its source,
+ * optionally followed by another GUID (for an item followed by its part),
+ * by a colon plus a part role ID, and by a slash plus a suffix. A single
+ * GUID is a part ID when it has a role or the node source type is part;
+ * else it is an item ID.
+ *
+ * @param sid The SID.
+ * @param sourceType The source type of the node, if known.
+ * @returns The SID components, or null if the SID is not valid.
+ */
+export function parseWalkerSid(
+  sid: string | null | undefined,
+  sourceType?: number | null
+): WalkerSid | null {
+  const m = sid ? SID_REGEX.exec(sid.trim()) : null;
+  if (!m) {
+    return null;
+  }
+  const result: WalkerSid = { sid: sid!.trim() };
+  if (m[2]) {
+    result.itemId = m[1];
+    result.partId = m[2];
+  } else if (m[3] || sourceType === PART_SOURCE_TYPE) {
+    result.partId = m[1];
+  } else {
+    result.itemId = m[1];
+  }
+  if (m[3]) {
+    result.partRole = m[3];
+  }
+  if (m[4]) {
+    result.suffix = m[4];
+  }
+  return result;
+}
+
+/**
+ * Build a link from the specified URL template and SID.
+ *
+ * @param template The URL template.
+ * @param sid The parsed SID.
+ * @returns The link, or null if the template is empty or any of its
+ * placeholders has no value.
+ */
+export function buildWalkerSourceLink(
+  template: string | undefined,
+  sid: WalkerSid
+): string | null {
+  if (!template) {
+    return null;
+  }
+  let missing = false;
+  const link = template.replace(/\{(itemId|partId|partRole)\}/g, (_, key) => {
+    const value = sid[key as keyof WalkerSid];
+    if (!value) {
+      missing = true;
+      return '';
+    }
+    return encodeURIComponent(value);
+  });
+  return missing ? null : link;
+}
+
+/**
+ * Get the source of the specified walker node from its SID.
+ *
+ * @param node The node.
+ * @returns The source, or null if the node is not an N node, or has no
+ * valid SID.
+ */
+export function getWalkerNodeSource(
+  node: GraphNode | null | undefined
+): WalkerNodeSource | null {
+  if (!node?.id.startsWith('N')) {
+    return null;
+  }
+  const sid = parseWalkerSid(node.data?.sid, node.data?.sourceType);
+  if (!sid) {
+    return null;
+  }
+  return {
+    ...sid,
+    target: sid.partId ? 'part' : 'item',
+    nodeId: +node.id.substring(1),
+    uri: node.data.uri,
+    node: node,
+  };
+}
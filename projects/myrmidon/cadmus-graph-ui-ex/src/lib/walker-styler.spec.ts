@@ -0,0 +1,169 @@
+import { Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+
+import {
+  getWalkerShapeRadii,
+  WalkerStyleConfig,
+  WalkerStyler,
+} from './walker-styler';
+
+const ROOT: GraphNode = {
+  id: 'N1',
+  label: 'Petrarca',
+  data: { uri: 'x:petrarca', originId: '', sourceType: 0, tag: 'poet' },
+};
+const CLASS: GraphNode = {
+  id: 'N2',
+  label: 'person',
+  data: { uri: 'x:person', originId: 'P10N1', isClass: true, sourceType: 1 },
+};
+const PROP: GraphNode = {
+  id: 'P10N1',
+  label: '1',
+  data: { uri: 'rdf:type', originId: 'N1' },
+};
+const LIT: GraphNode = {
+  id: 'L3',
+  label: '1304',
+  data: { value: '1304', type: 'xs:int', originId: 'P11N1' },
+};
+const ITEM: GraphNode = { id: 'I1', label: 'item', data: { key: '1' } };
+
+describe('WalkerStyler', () => {
+  it('should use the default config', () => {
+    const styler = new WalkerStyler();
+    expect(styler.getNodeStyle(ROOT)).toEqual({ fill: '#80ff95' });
+    expect(styler.getNodeStyle(PROP)).toEqual({ fill: '#FF5619' });
+    expect(styler.getNodeStyle(LIT)).toEqual({ fill: '#ebe2e0' });
+    expect(styler.getNodeStyle(ITEM)).toEqual({});
+  });
+
+  it('should merge the matching rules in their order', () => {
+    const styler = new WalkerStyler({
+      nodeRules: [
+        { match: {}, style: { fill: 'white', stroke: 'black' } },
+        { match: { kind: 'N' }, style: { fill: 'green', strokeWidth: 2 } },
+        { match: { kind: 'N', tag: 'poet' }, style: { stroke: 'gold' } },
+        { match: { kind: 'P' }, style: { fill: 'orange' } },
+      ],
+    });
+    expect(styler.getNodeStyle(ROOT)).toEqual({
+      fill: 'green',
+      stroke: 'gold',
+      strokeWidth: 2,
+    });
+    expect(styler.getNodeStyle(CLASS)).toEqual({
+      fill: 'green',
+      stroke: 'black',
+      strokeWidth: 2,
+    });
+    expect(styler.getNodeStyle(PROP)).toEqual({
+      fill: 'orange',
+      stroke: 'black',
+    });
+  });
+
+  it('should let a custom color override the fill', () => {
+    const styler = new WalkerStyler({
+      nodeRules: [{ match: { kind: 'N' }, style: { fill: 'green' } }],
+    });
+    expect(
+      styler.getNodeStyle({
+        ...ROOT,
+        data: { ...ROOT.data, customColor: '#ff0000' },
+      })
+    ).toEqual({ fill: '#ff0000' });
+  });
+
+  it('should match nodes by kind, including expander prefixes', () => {
+    const styler = new WalkerStyler({
+      nodeRules: [{ match: { kind: 'I' }, style: { shape: 'pill' } }],
+    });
+    expect(styler.getNodeStyle(ITEM)).toEqual({ shape: 'pill' });
+    expect(styler.getNodeStyle(ROOT)).toEqual({});
+  });
+
+  it('should match root and non-root nodes', () => {
+    const styler = new WalkerStyler({
+      nodeRules: [
+        { match: { root: true }, style: { strokeWidth: 3 } },
+        { match: { root: false }, style: { strokeWidth: 1 } },
+      ],
+    });
+    expect(styler.getNodeStyle(ROOT)).toEqual({ strokeWidth: 3 });
+    expect(styler.getNodeStyle(CLASS)).toEqual({ strokeWidth: 1 });
+    // only N nodes can be roots
+    expect(
+      styler.getNodeStyle({ ...PROP, data: { ...PROP.data, originId: '' } })
+    ).toEqual({ strokeWidth: 1 });
+  });
+
+  it('should match nodes by their data', () => {
+    const config: WalkerStyleConfig = {
+      nodeRules: [
+        { match: { isClass: true }, style: { shape: 'ellipse' } },
+        { match: { sourceType: 1 }, style: { labelStyle: 'italic' } },
+        { match: { uriPrefix: 'x:' }, style: { labelWeight: 'bold' } },
+        { match: { predicate: 'rdf:type' }, style: { fill: 'gray' } },
+        { match: { literalType: 'xs:int' }, style: { labelColor: 'blue' } },
+        {
+          match: { test: (n) => n.label === 'Petrarca' },
+          style: { stroke: 'red' },
+        },
+      ],
+    };
+    const styler = new WalkerStyler(config);
+    expect(styler.getNodeStyle(ROOT)).toEqual({
+      labelWeight: 'bold',
+      stroke: 'red',
+    });
+    expect(styler.getNodeStyle(CLASS)).toEqual({
+      shape: 'ellipse',
+      labelStyle: 'italic',
+      labelWeight: 'bold',
+    });
+    expect(styler.getNodeStyle(PROP)).toEqual({ fill: 'gray' });
+    expect(styler.getNodeStyle(LIT)).toEqual({ labelColor: 'blue' });
+  });
+
+  it('should get the styles of nodes and edges', () => {
+    const styler = new WalkerStyler({
+      nodeRules: [{ match: { kind: 'N' }, style: { fill: 'green' } }],
+      edgeRules: [
+        { match: {}, style: { stroke: 'gray' } },
+        { match: { uriPrefix: 'rdf:' }, style: { dashArray: '4 2' } },
+        { match: { predicate: 'rdf:type' }, style: { stroke: 'black' } },
+        {
+          match: { test: (e, p) => !p && e.source === 'L3' },
+          style: { strokeWidth: 2 },
+        },
+      ],
+    });
+    const edges: Edge[] = [
+      ['N1', 'P10N1'],
+      ['P10N1', 'N2'],
+      ['L3', 'N1'],
+    ].map(([s, t]) => ({ id: `E${s}_${t}`, source: s, target: t }));
+    const styles = styler.getStyles([ROOT, CLASS, PROP, LIT], edges);
+
+    expect(Object.keys(styles.nodes)).toEqual(['N1', 'N2', 'P10N1', 'L3']);
+    expect(styles.nodes['N2']).toEqual({ fill: 'green' });
+    expect(styles.nodes['L3']).toEqual({});
+    // the predicate is got from the property group at either end
+    expect(styles.edges['EN1_P10N1']).toEqual({
+      stroke: 'black',
+      dashArray: '4 2',
+    });
+    expect(styles.edges['EP10N1_N2']).toEqual(styles.edges['EN1_P10N1']);
+    expect(styles.edges['EL3_N1']).toEqual({ stroke: 'gray', strokeWidth: 2 });
+  });
+});
+
+describe('getWalkerShapeRadii', () => {
+  it('should get the corner radii of each shape', () => {
+    expect(getWalkerShapeRadii(undefined, 100, 40)).toEqual([0, 0]);
+    expect(getWalkerShapeRadii('rect', 100, 40)).toEqual([0, 0]);
+    expect(getWalkerShapeRadii('rounded', 100, 40)).toEqual([6, 6]);
+    expect(getWalkerShapeRadii('pill', 100, 40)).toEqual([20, 20]);
+    expect(getWalkerShapeRadii('ellipse', 100, 40)).toEqual([50, 20]);
+  });
+});
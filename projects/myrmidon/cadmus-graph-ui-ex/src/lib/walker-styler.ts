@@ -0,0 +1,310 @@
+import { InjectionToken } from '@angular/core';
+import { Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+
+import { NodeSourceType } from '@myrmidon/cadmus-api';
+
+/**
+ * The shape of a node in the walker graph.
+ * - rect: a rectangle.
+ * - rounded: a rectangle with rounded corners.
+ * - pill: a rectangle with fully rounded sides.
+ * - ellipse: an ellipse inscribed in the node's box.
+ */
+export type WalkerNodeShape = 'rect' | 'rounded' | 'pill' | 'ellipse';
+
+/**
+ * The style of a node in the walker graph.
+ */
+export interface WalkerNodeStyle {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  shape?: WalkerNodeShape;
+  labelColor?: string;
+  labelWeight?: 'normal' | 'bold';
+  labelStyle?: 'normal' | 'italic';
+}
+
+/**
+ * The style of an edge in the walker graph.
+ */
+export interface WalkerEdgeStyle {
+  stroke?: string;
+  strokeWidth?: number;
+  /**
+   * The SVG stroke dash array, e.g. "4 2".
+   */
+  dashArray?: string;
+  labelColor?: string;
+}
+
+/**
+ * The conditions matched by a node style rule. All the specified
+ * conditions must be true for the rule to match.
+ */
+export interface WalkerNodeStyleMatch {
+  /**
+   * The node kind: N=node, P=property group, L=literal, or the prefix
+   * of the expander which built the node.
+   */
+  kind?: string;
+  /**
+   * True to match only root nodes, false to match only non-root nodes.
+   */
+  root?: boolean;
+  isClass?: boolean;
+  sourceType?: NodeSourceType;
+  tag?: string;
+  /**
+   * The prefix of the node's URI, or of the predicate's URI for property
+   * groups.
+   */
+  uriPrefix?: string;
+  /**
+   * The URI of the predicate of a property group.
+   */
+  predicate?: string;
+  /**
+   * The type of a literal.
+   */
+  literalType?: string;
+  /**
+   * A custom test on the node.
+   */
+  test?: (node: GraphNode) => boolean;
+}
+
+/**
+ * The conditions matched by an edge style rule. All the specified
+ * conditions must be true for the rule to match.
+ */
+export interface WalkerEdgeStyleMatch {
+  /**
+   * The URI of the edge's predicate, i.e. the one of the property group
+   * at either of its ends.
+   */
+  predicate?: string;
+  /**
+   * The prefix of the edge's predicate URI.
+   */
+  uriPrefix?: string;
+  /**
+   * A custom test on the edge and its predicate URI, if any.
+   */
+  test?: (edge: Edge, predicate?: string) => boolean;
+}
+
+/**
+ * A node style rule.
+ */
+export interface WalkerNodeStyleRule {
+  match: WalkerNodeStyleMatch;
+  style: WalkerNodeStyle;
+}
+
+/**
+ * An edge style rule.
+ */
+export interface WalkerEdgeStyleRule {
+  match: WalkerEdgeStyleMatch;
+  style: WalkerEdgeStyle;
+}
+
+/**
+ * The walker styling configuration. The styles of all the rules matching
+ * a node or an edge are merged in their order, so that later rules
+ * override earlier ones. A custom color assigned to a node (as for roots)
+ * always overrides the fill color from rules.
+ */
+export interface WalkerStyleConfig {
+  nodeRules: WalkerNodeStyleRule[];
+  edgeRules?: WalkerEdgeStyleRule[];
+}
+
+/**
+ * The computed styles of the walker graph, keyed by node or edge ID.
+ */
+export interface WalkerStyles {
+  nodes: { [key: string]: WalkerNodeStyle };
+  edges: { [key: string]: WalkerEdgeStyle };
+}
+
+/**
+ * The default walker styling configuration.
+ */
+export const WALKER_DEFAULT_STYLE_CONFIG: WalkerStyleConfig = {
+  nodeRules: [
+    { match: { kind: 'N' }, style: { fill: '#80ff95' } },
+    { match: { kind: 'P' }, style: { fill: '#FF5619' } },
+    { match: { kind: 'L' }, style: { fill: '#ebe2e0' } },
+  ],
+};
+
+/**
+ * Injection token for the walker styling configuration. When not provided,
+ * WALKER_DEFAULT_STYLE_CONFIG is used.
+ */
+export const WALKER_STYLE_CONFIG = new InjectionToken<WalkerStyleConfig>(
+  'WALKER_STYLE_CONFIG'
+);
+
+/**
+ * Get the horizontal and vertical corner radii of a node with the
+ * specified shape and size.
+ *
+ * @param shape The shape.
+ * @param width The node width.
+ * @param height The node height.
+ * @returns The radii.
+ */
+export function getWalkerShapeRadii(
+  shape: WalkerNodeShape | undefined,
+  width: number,
+  height: number
+): [number, number] {
+  switch (shape) {
+    case 'rounded':
+      return [6, 6];
+    case 'pill':
+      return [height / 2, height / 2];
+    case 'ellipse':
+      return [width / 2, height / 2];
+    default:
+      return [0, 0];
+  }
+}
+
+/**
+ * Styler for the walker graph. This computes the style of each node and
+ * edge from the rules of its configuration.
+ */
+export class WalkerStyler {
+  private readonly _config: WalkerStyleConfig;
+
+  constructor(config?: WalkerStyleConfig | null) {
+    this._config = config || WALKER_DEFAULT_STYLE_CONFIG;
+  }
+
+  private matchNode(match: WalkerNodeStyleMatch, node: GraphNode): boolean {
+    const kind = node.id.charAt(0);
+    const data = node.data || {};
+    if (match.kind && match.kind !== kind) {
+      return false;
+    }
+    if (
+      match.root !== undefined &&
+      match.root !== (kind === 'N' && data.originId === '')
+    ) {
+      return false;
+    }
+    if (match.isClass !== undefined && match.isClass !== !!data.isClass) {
+      return false;
+    }
+    if (
+      match.sourceType !== undefined &&
+      (kind !== 'N' || match.sourceType !== data.sourceType)
+    ) {
+      return false;
+    }
+    if (match.tag !== undefined && match.tag !== data.tag) {
+      return false;
+    }
+    if (
+      match.uriPrefix !== undefined &&
+      !data.uri?.startsWith(match.uriPrefix)
+    ) {
+      return false;
+    }
+    if (
+      match.predicate !== undefined &&
+      (kind !== 'P' || match.predicate !== data.uri)
+    ) {
+      return false;
+    }
+    if (
+      match.literalType !== undefined &&
+      (kind !== 'L' || match.literalType !== data.type)
+    ) {
+      return false;
+    }
+    return !match.test || match.test(node);
+  }
+
+  private matchEdge(
+    match: WalkerEdgeStyleMatch,
+    edge: Edge,
+    predicate?: string
+  ): boolean {
+    if (match.predicate !== undefined && match.predicate !== predicate) {
+      return false;
+    }
+    if (
+      match.uriPrefix !== undefined &&
+      !predicate?.startsWith(match.uriPrefix)
+    ) {
+      return false;
+    }
+    return !match.test || match.test(edge, predicate);
+  }
+
+  /**
+   * Get the style of the specified node.
+   *
+   * @param node The node.
+   * @returns The style.
+   */
+  public getNodeStyle(node: GraphNode): WalkerNodeStyle {
+    const style: WalkerNodeStyle = {};
+    for (const rule of this._config.nodeRules) {
+      if (this.matchNode(rule.match, node)) {
+        Object.assign(style, rule.style);
+      }
+    }
+    if (node.data?.customColor) {
+      style.fill = node.data.customColor;
+    }
+    return style;
+  }
+
+  /**
+   * Get the style of the specified edge.
+   *
+   * @param edge The edge.
+   * @param predicate The URI of the edge's predicate, if any.
+   * @returns The style.
+   */
+  public getEdgeStyle(edge: Edge, predicate?: string): WalkerEdgeStyle {
+    const style: WalkerEdgeStyle = {};
+    for (const rule of this._config.edgeRules || []) {
+      if (this.matchEdge(rule.match, edge, predicate)) {
+        Object.assign(style, rule.style);
+      }
+    }
+    return style;
+  }
+
+  /**
+   * Get the styles of all the specified nodes and edges.
+   *
+   * @param nodes The nodes.
+   * @param edges The edges.
+   * @returns The styles.
+   */
+  public getStyles(nodes: GraphNode[], edges: Edge[]): WalkerStyles {
+    const styles: WalkerStyles = { nodes: {}, edges: {} };
+    const predicates = new Map<string, string>();
+    for (const node of nodes) {
+      styles.nodes[node.id] = this.getNodeStyle(node);
+      if (node.id.startsWith('P') && node.data?.uri) {
+        predicates.set(node.id, node.data.uri);
+      }
+    }
+    for (const edge of edges) {
+      styles.edges[edge.id!] = this.getEdgeStyle(
+        edge,
+        predicates.get(edge.source) || predicates.get(edge.target)
+      );
+    }
+    return styles;
+  }
+}
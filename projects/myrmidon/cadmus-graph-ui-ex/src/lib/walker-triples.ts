@@ -0,0 +1,78 @@
+import { Edge, Node as GraphNode } from '@swimlane/ngx-graph';
+
+/**
+ * A triple reconstructed from the walker graph. Subject and object are
+ * graph node IDs (N for nodes, L for literals), while the predicate is the
+ * URI of the property group connecting them.
+ */
+export interface WalkerTriple {
+  subjectId: string;
+  predicate: string;
+  objectId: string;
+  propertyId: string;
+}
+
+/**
+ * Get the ID of the anchor node of the specified property group node,
+ * i.e. the N node it was built from. Property group IDs are P + predicate
+ * ID + N + node ID.
+ *
+ * @param propertyId The property group graph node ID.
+ * @returns The anchor graph node ID.
+ */
+export function getPropertyAnchorId(propertyId: string): string {
+  const i = propertyId.indexOf('N');
+  return i === -1 ? '' : propertyId.substring(i);
+}
+
+/**
+ * Get the triples represented by the walker nodes and edges. Each property
+ * group node P connects its anchor node A to other nodes: an edge P to X
+ * (X being a node or literal other than A) represents the triple A P X,
+ * while an edge X to P represents the triple X P A.
+ *
+ * @param nodes The walker nodes.
+ * @param edges The walker edges.
+ * @returns The distinct triples.
+ */
+export function getWalkerTriples(
+  nodes: GraphNode[],
+  edges: Edge[]
+): WalkerTriple[] {
+  const ids = new Set<string>(nodes.map((n) => n.id));
+  const triples: WalkerTriple[] = [];
+  const keys = new Set<string>();
+
+  const add = (s: string, p: string, o: string, propertyId: string) => {
+    const key = `${s} ${p} ${o}`;
+    if (!keys.has(key)) {
+      keys.add(key);
+      triples.push({
+        subjectId: s,
+        predicate: p,
+        objectId: o,
+        propertyId: propertyId,
+      });
+    }
+  };
+
+  for (const prop of nodes.filter((n) => n.id.startsWith('P'))) {
+    const anchorId = getPropertyAnchorId(prop.id);
+    const uri: string = prop.data?.uri;
+    if (!uri || !ids.has(anchorId)) {
+      continue;
+    }
+    for (const edge of edges) {
+      if (edge.source === prop.id) {
+        if (edge.target !== anchorId && ids.has(edge.target)) {
+          add(anchorId, uri, edge.target, prop.id);
+        }
+      } else if (edge.target === prop.id) {
+        if (edge.source !== anchorId && ids.has(edge.source)) {
+          add(edge.source, uri, anchorId, prop.id);
+        }
+      }
+    }
+  }
+  return triples;
+}
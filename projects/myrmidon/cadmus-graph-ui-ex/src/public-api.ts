@@ -2,13 +2,36 @@
  * Public API Surface of cadmus-graph-ui
  */
 
+export * from './lib/components/error-list/error-list.component';
+export * from './lib/components/expander-panel/expander-panel.component';
 export * from './lib/components/graph-walker/graph-walker.component';
 export * from './lib/components/linked-literal-filter/linked-literal-filter.component';
 export * from './lib/components/linked-node-filter/linked-node-filter.component';
+export * from './lib/components/literal-inspector/literal-inspector.component';
+export * from './lib/components/node-details/node-details.component';
+export * from './lib/components/path-finder/path-finder.component';
 export * from './lib/components/triple-filter/triple-filter.component';
 
 export * from './lib/pipes/graph-node-label.pipe';
+export * from './lib/pipes/walker-curie.pipe';
 
+export * from './lib/graph-path-finder';
 export * from './lib/graph-walker';
+export * from './lib/graph-walker-clusters';
+export * from './lib/walker-errors';
+export * from './lib/walker-expanders';
+export * from './lib/walker-graph-cache';
+export * from './lib/walker-graph-exporter';
+export * from './lib/walker-image-exporter';
+export * from './lib/walker-layout';
+export * from './lib/walker-literal-formatters';
+export * from './lib/walker-memory-graph';
+export * from './lib/walker-navigation';
+export * from './lib/walker-prefixes';
+export * from './lib/walker-rdf-exporter';
+export * from './lib/walker-search';
+export * from './lib/walker-sid';
+export * from './lib/walker-styler';
+export * from './lib/walker-triples';
 
 export * from './lib/cadmus-graph-ui-ex.module';
@@ -4,6 +4,11 @@ import { take } from 'rxjs';
 
 import { Node as GraphNode } from '@swimlane/ngx-graph';
 import { GraphService } from '@myrmidon/cadmus-api';
+import {
+  GraphWalkerEvent,
+  WalkerMemoryGraphService,
+  WalkerNodeSource,
+} from 'projects/myrmidon/cadmus-graph-ui-ex/src/public-api';
 
 @Component({
   selector: 'app-root',
@@ -13,10 +18,12 @@ import { GraphService } from '@myrmidon/cadmus-api';
 export class AppComponent implements OnInit {
   public nodeId: number;
   public version: string;
+  public offline: boolean;
 
   constructor(private _graphService: GraphService, env: EnvService) {
     this.nodeId = 0;
     this.version = env.get('version') || '';
+    this.offline = _graphService instanceof WalkerMemoryGraphService;
   }
 
   ngOnInit(): void {
@@ -32,4 +39,17 @@ export class AppComponent implements OnInit {
   public onNodePick(node: GraphNode): void {
     console.log(JSON.stringify(node, null, 2));
   }
+
+  public onWalkerEvent(event: GraphWalkerEvent): void {
+    console.log(`walker ${event.type}: ${event.nodeId || ''}`);
+  }
+
+  public onMoveToSource(source: WalkerNodeSource): void {
+    console.log(
+      `move to ${source.target}: ` +
+        (source.target === 'item'
+          ? source.itemId
+          : `${source.itemId || '?'}/${source.partId}`)
+    );
+  }
 }
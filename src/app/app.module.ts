@@ -1,3 +1,4 @@
+import { HttpClient } from '@angular/common/http';
 import { NgModule } from '@angular/core';
 import { BrowserModule } from '@angular/platform-browser';
 import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
@@ -18,15 +19,32 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 
 import { NgxGraphModule } from '@swimlane/ngx-graph';
 
-import { EnvServiceProvider, NgToolsModule } from '@myrmidon/ng-tools';
+import {
+  EnvServiceFactory,
+  EnvServiceProvider,
+  NgToolsModule,
+} from '@myrmidon/ng-tools';
 import { NgMatToolsModule } from '@myrmidon/ng-mat-tools';
 import { CadmusRefsLookupModule } from '@myrmidon/cadmus-refs-lookup';
 import { PagedDataBrowsersModule } from '@myrmidon/paged-data-browsers';
+import { GraphService } from '@myrmidon/cadmus-api';
 
-import { CadmusGraphUiExModule } from 'projects/myrmidon/cadmus-graph-ui-ex/src/public-api';
+import {
+  CadmusGraphUiExModule,
+  WalkerMemoryGraphDataset,
+  WalkerMemoryGraphService,
+} from 'projects/myrmidon/cadmus-graph-ui-ex/src/public-api';
 
 import { AppComponent } from './app.component';
 
+// in the offline demo mode (offline set in env.js, or an offline query
+// parameter), the graph service is replaced by an in-memory service seeded
+// from the demo dataset, so that no backend is required; the providers
+// are chosen before injection, so the environment is read via its factory
+const OFFLINE =
+  !!EnvServiceFactory().get('offline') ||
+  new URLSearchParams(window.location.search).has('offline');
+
 @NgModule({
   declarations: [AppComponent],
   imports: [
@@ -55,7 +73,22 @@ import { AppComponent } from './app.component';
     CadmusGraphUiExModule,
     CadmusRefsLookupModule,
   ],
-  providers: [EnvServiceProvider],
+  providers: [
+    EnvServiceProvider,
+    ...(OFFLINE
+      ? [
+          {
+            provide: GraphService,
+            useFactory: (http: HttpClient) =>
+              new WalkerMemoryGraphService(
+                http.get<WalkerMemoryGraphDataset>('assets/demo-graph.json'),
+                { delay: 200 }
+              ),
+            deps: [HttpClient],
+          },
+        ]
+      : []),
+  ],
   bootstrap: [AppComponent],
 })
 export class AppModule {}
@@ -5,4 +5,6 @@
   // environment-dependent settings
   window.__env.apiUrl = "http://localhost:5153/api/";
   window.__env.version = '0.0.1';
+  // true to use the in-memory demo graph instead of the API
+  window.__env.offline = false;
 })(this);